@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the file content cache.
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { FileContentCache } from './cache.js'
+import type { FileAccessProvider } from './interfaces.js'
+
+function createFileAccess(
+  files: Record<string, string>,
+  withStat = true,
+): FileAccessProvider & { versions: Record<string, number> } {
+  const versions: Record<string, number> = {}
+  return {
+    versions,
+    readFile: vi.fn(async (uri: string) => {
+      const content = files[uri]
+      if (content === undefined) {
+        throw new Error(`File not found: ${uri}`)
+      }
+      return content
+    }),
+    readDirectory: vi.fn(async () => []),
+    ...(withStat && {
+      stat: vi.fn(async (uri: string) => ({ version: versions[uri] ?? 0 })),
+    }),
+  }
+}
+
+describe('FileContentCache', () => {
+  it('should read a file once while its version is unchanged', async () => {
+    const fs = createFileAccess({ 'a.ts': 'one\ntwo' })
+    const cache = new FileContentCache(fs)
+
+    expect(await cache.readFile('a.ts')).toBe('one\ntwo')
+    expect(await cache.readLines('a.ts')).toStrictEqual(['one', 'two'])
+    expect(await cache.readLines('a.ts')).toBe(await cache.readLines('a.ts'))
+    expect(fs.readFile).toHaveBeenCalledTimes(1)
+  })
+
+  it('should re-read a file when its version changes', async () => {
+    const files = { 'a.ts': 'one' }
+    const fs = createFileAccess(files)
+    const cache = new FileContentCache(fs)
+
+    await cache.readFile('a.ts')
+    files['a.ts'] = 'two'
+    fs.versions['a.ts'] = 1
+
+    expect(await cache.readFile('a.ts')).toBe('two')
+    expect(fs.readFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('should re-read an invalidated file', async () => {
+    const files = { 'a.ts': 'one' }
+    const fs = createFileAccess(files)
+    const cache = new FileContentCache(fs)
+
+    await cache.readFile('a.ts')
+    files['a.ts'] = 'two'
+    cache.invalidate('a.ts')
+
+    expect(await cache.readFile('a.ts')).toBe('two')
+  })
+
+  it('should not cache without stat', async () => {
+    const fs = createFileAccess({ 'a.ts': 'one' }, false)
+    const cache = new FileContentCache(fs)
+
+    await cache.readFile('a.ts')
+    await cache.readLines('a.ts')
+
+    expect(fs.readFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('should read lines of files that are not cached through the provider', async () => {
+    const fs = createFileAccess({ 'a.ts': 'one\ntwo' })
+    fs.readLines = vi.fn(async () => ['one', 'two'])
+    const cache = new FileContentCache(fs)
+
+    expect(await cache.readLines('a.ts')).toStrictEqual(['one', 'two'])
+    await cache.readFile('a.ts')
+    await cache.readLines('a.ts')
+
+    expect(fs.readLines).toHaveBeenCalledTimes(1)
+    expect(fs.readFile).toHaveBeenCalledTimes(1)
+  })
+
+  it('should evict the least recently used file', async () => {
+    const fs = createFileAccess({ 'a.ts': 'a', 'b.ts': 'b', 'c.ts': 'c' })
+    const cache = new FileContentCache(fs, 2)
+
+    await cache.readFile('a.ts')
+    await cache.readFile('b.ts')
+    await cache.readFile('a.ts')
+    await cache.readFile('c.ts')
+    vi.mocked(fs.readFile).mockClear()
+
+    await cache.readFile('a.ts')
+    await cache.readFile('b.ts')
+
+    expect(fs.readFile).toHaveBeenCalledTimes(1)
+    expect(fs.readFile).toHaveBeenCalledWith('b.ts')
+  })
+
+  it('should propagate read errors', async () => {
+    const fs = createFileAccess({})
+    const cache = new FileContentCache(fs)
+
+    await expect(cache.readFile('missing.ts')).rejects.toThrow(
+      'File not found: missing.ts',
+    )
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Cache of file contents shared by the resolver, resources and edit tools.
+ * @internal
+ */
+
+import type { FileAccessProvider } from './interfaces.js'
+import type { UnifiedUri } from './types.js'
+
+interface CacheEntry {
+  version: string | number
+  content: string
+  /** Content split into lines, computed on first use */
+  lines?: string[]
+}
+
+/**
+ * Wraps a FileAccessProvider and caches file contents by URI and the
+ * version reported by FileAccessProvider.stat. Without stat, every read
+ * goes to the underlying provider.
+ */
+export class FileContentCache implements FileAccessProvider {
+  private readonly entries = new Map<UnifiedUri, CacheEntry>()
+  readonly getFileTree?: (relativePath: UnifiedUri) => Promise<string[]>
+
+  constructor(
+    private readonly fs: FileAccessProvider,
+    private readonly maxEntries = 50,
+  ) {
+    const { getFileTree } = fs
+    if (getFileTree) {
+      this.getFileTree = (relativePath) => getFileTree.call(fs, relativePath)
+    }
+  }
+
+  async readFile(uri: UnifiedUri): Promise<string> {
+    return (await this.read(uri)).content
+  }
+
+  /**
+   * Reads a file split into lines. The returned array is shared and must
+   * not be modified. Files that are not cached are read through the
+   * underlying provider's readLines, if it has one.
+   */
+  async readLines(uri: UnifiedUri): Promise<string[]> {
+    if (this.fs.readLines && !(await this.isCached(uri))) {
+      return this.fs.readLines(uri)
+    }
+    const entry = await this.read(uri)
+    entry.lines ??= entry.content.split(/\r?\n/)
+    return entry.lines
+  }
+
+  readDirectory(relativePath: UnifiedUri): Promise<string[]> {
+    return this.fs.readDirectory(relativePath)
+  }
+
+  /**
+   * Drops a file from the cache.
+   */
+  invalidate(uri: UnifiedUri): void {
+    this.entries.delete(uri)
+  }
+
+  /**
+   * Whether the cache holds the current version of a file.
+   */
+  private async isCached(uri: UnifiedUri): Promise<boolean> {
+    const entry = this.entries.get(uri)
+    if (!entry || !this.fs.stat || this.maxEntries <= 0) return false
+    return entry.version === (await this.fs.stat(uri)).version
+  }
+
+  private async read(uri: UnifiedUri): Promise<CacheEntry> {
+    if (!this.fs.stat || this.maxEntries <= 0) {
+      return { version: '', content: await this.fs.readFile(uri) }
+    }
+
+    const { version } = await this.fs.stat(uri)
+    let entry = this.entries.get(uri)
+    if (entry?.version !== version) {
+      entry = { version, content: await this.fs.readFile(uri) }
+    }
+
+    // Keep the most recently used entries last, evicting from the front
+    this.entries.delete(uri)
+    this.entries.set(uri, entry)
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as UnifiedUri
+      this.entries.delete(oldest)
+    }
+    return entry
+  }
+}
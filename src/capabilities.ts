@@ -13,11 +13,23 @@ import type {
   UserInteractionProvider,
 } from './interfaces.js'
 import type {
+  CallHierarchyItem,
+  CodeAction,
   CodeSnippet,
+  CompletionItem,
   Diagnostic,
+  DiskRange,
   DocumentSymbol,
   ExactPosition,
+  HoverInfo,
+  InlayHint,
+  SemanticToken,
+  SignatureHelp,
+  TextEdit,
+  TypeHierarchyItem,
   UnifiedUri,
+  WorkspaceEdit,
+  WorkspaceSymbol,
 } from './types.js'
 
 // ============================================================================
@@ -41,6 +53,42 @@ export interface DefinitionProvider {
   ): Promise<CodeSnippet[]>
 }
 
+/**
+ * Provides go-to-type-definition functionality.
+ */
+export interface TypeDefinitionProvider {
+  /**
+   * Returns the definition of the type of the symbol at the given position
+   * (e.g., the class of a variable), reading strictly from disk context.
+   *
+   * @param uri - The URI of the file
+   * @param position - The exact position to find the type definition for
+   * @returns Array of code snippets representing type definition locations
+   */
+  provideTypeDefinition(
+    uri: UnifiedUri,
+    position: ExactPosition,
+  ): Promise<CodeSnippet[]>
+}
+
+/**
+ * Provides go-to-implementation functionality.
+ */
+export interface ImplementationProvider {
+  /**
+   * Returns the implementations of the symbol at the given position
+   * (e.g., the classes implementing an interface method).
+   *
+   * @param uri - The URI of the file
+   * @param position - The exact position to find implementations for
+   * @returns Array of code snippets representing implementation locations
+   */
+  provideImplementation(
+    uri: UnifiedUri,
+    position: ExactPosition,
+  ): Promise<CodeSnippet[]>
+}
+
 /**
  * Provides find-references functionality.
  */
@@ -58,6 +106,89 @@ export interface ReferencesProvider {
   ): Promise<CodeSnippet[]>
 }
 
+/**
+ * Provides hover information (type signatures, documentation).
+ */
+export interface HoverProvider {
+  /**
+   * Gets hover information for the symbol at the given position.
+   *
+   * @param uri - The URI of the file
+   * @param position - The exact position to get hover information for
+   * @returns The hover information, or null if nothing is available
+   */
+  provideHover(
+    uri: UnifiedUri,
+    position: ExactPosition,
+  ): Promise<HoverInfo | null>
+}
+
+/**
+ * Provides the signatures of the function called at a position.
+ */
+export interface SignatureHelpProvider {
+  /**
+   * Gets the signatures for the call surrounding a position.
+   *
+   * @param uri - The URI of the file
+   * @param position - An exact position inside the call's parentheses
+   * @returns The signatures, or null if the position is not inside a call
+   */
+  provideSignatureHelp(
+    uri: UnifiedUri,
+    position: ExactPosition,
+  ): Promise<SignatureHelp | null>
+}
+
+/**
+ * Provides code completion suggestions.
+ */
+export interface CompletionProvider {
+  /**
+   * Gets the completions the IDE offers at a position.
+   *
+   * @param uri - The URI of the file
+   * @param position - The exact cursor position to complete at
+   * @returns The completion items, in any order
+   */
+  provideCompletions(
+    uri: UnifiedUri,
+    position: ExactPosition,
+  ): Promise<CompletionItem[]>
+}
+
+/**
+ * Provides inlay hints (inferred types, parameter names).
+ */
+export interface InlayHintsProvider {
+  /**
+   * Gets the inlay hints shown within a range of a file.
+   *
+   * @param uri - The URI of the file
+   * @param range - The range to get hints for
+   * @returns The hints in the range, in any order
+   */
+  provideInlayHints(uri: UnifiedUri, range: DiskRange): Promise<InlayHint[]>
+}
+
+/**
+ * Provides semantic tokens (what each identifier in the code refers to).
+ */
+export interface SemanticTokensProvider {
+  /**
+   * Gets the semantic tokens within a range of a file, decoded from the
+   * language server's token legend into type and modifier names.
+   *
+   * @param uri - The URI of the file
+   * @param range - The range to get tokens for
+   * @returns The tokens in the range, in any order
+   */
+  provideSemanticTokens(
+    uri: UnifiedUri,
+    range: DiskRange,
+  ): Promise<SemanticToken[]>
+}
+
 /**
  * Provides call hierarchy functionality.
  */
@@ -68,13 +199,68 @@ export interface HierarchyProvider {
    * @param uri - The URI of the file
    * @param position - The exact position to get call hierarchy for
    * @param direction - Whether to get incoming or outgoing calls
-   * @returns Array of code snippets representing call hierarchy items
+   * @returns Array of call hierarchy items (callers or callees); include
+   * their name and selectionRange to support multi-level hierarchies
    */
   provideCallHierarchy(
     uri: UnifiedUri,
     position: ExactPosition,
     direction: 'incoming' | 'outgoing',
-  ): Promise<CodeSnippet[]>
+  ): Promise<CallHierarchyItem[]>
+}
+
+/**
+ * Provides type hierarchy functionality.
+ */
+export interface TypeHierarchyProvider {
+  /**
+   * Provides the direct supertypes or subtypes of the type at the given
+   * position.
+   *
+   * @param uri - The URI of the file
+   * @param position - The exact position of the type
+   * @param direction - Whether to get the types it extends or implements
+   * (supertypes) or the types extending or implementing it (subtypes)
+   * @returns Array of types with their declarations
+   */
+  provideTypeHierarchy(
+    uri: UnifiedUri,
+    position: ExactPosition,
+    direction: 'supertypes' | 'subtypes',
+  ): Promise<TypeHierarchyItem[]>
+}
+
+/**
+ * Provides semantic rename functionality.
+ */
+export interface RenameProvider {
+  /**
+   * Checks whether the symbol at the given position can be renamed.
+   * If not provided, the rename is attempted directly.
+   *
+   * @param uri - The URI of the file
+   * @param position - The exact position of the symbol to rename
+   * @returns The range of the symbol to rename, or null if it cannot be renamed
+   */
+  prepareRename?(
+    uri: UnifiedUri,
+    position: ExactPosition,
+  ): Promise<DiskRange | null>
+
+  /**
+   * Computes the edits needed to rename the symbol at the given position.
+   * The edits are not applied; the SDK presents them for user approval.
+   *
+   * @param uri - The URI of the file
+   * @param position - The exact position of the symbol to rename
+   * @param newName - The new name of the symbol
+   * @returns The edits to apply across the workspace
+   */
+  provideRenameEdits(
+    uri: UnifiedUri,
+    position: ExactPosition,
+    newName: string,
+  ): Promise<WorkspaceEdit>
 }
 
 /**
@@ -98,6 +284,67 @@ export interface DiagnosticsProvider {
   getWorkspaceDiagnostics?(): Promise<Diagnostic[]>
 }
 
+/**
+ * Provides code actions (quick fixes and refactorings).
+ */
+export interface CodeActionProvider {
+  /**
+   * Lists the code actions available for a range.
+   *
+   * @param uri - The URI of the file
+   * @param range - The range to get actions for
+   * @param diagnostics - The diagnostics in the range to get fixes for
+   * @returns Array of available code actions
+   */
+  provideCodeActions(
+    uri: UnifiedUri,
+    range: DiskRange,
+    diagnostics: Diagnostic[],
+  ): Promise<CodeAction[]>
+
+  /**
+   * Computes the edit of an action listed without one.
+   * If not provided, only actions listed with an edit can be applied.
+   *
+   * @param action - An action returned by provideCodeActions
+   * @returns The action with its edit
+   */
+  resolveCodeAction?(action: CodeAction): Promise<CodeAction>
+}
+
+/**
+ * Provides code formatting with the project's formatter and settings.
+ */
+export interface FormattingProvider {
+  /**
+   * Computes the edits that format a whole file.
+   *
+   * @param uri - The URI of the file, which selects the formatter and settings
+   * @param content - The content to format; may differ from the file on disk
+   * @returns The edits to apply to content
+   */
+  provideDocumentFormatting(
+    uri: UnifiedUri,
+    content: string,
+  ): Promise<TextEdit[]>
+
+  /**
+   * Computes the edits that format a range of a file.
+   * If not provided, only whole files can be formatted.
+   *
+   * @param uri - The URI of the file, which selects the formatter and settings
+   * @param content - The content to format; may differ from the file on disk
+   * (e.g., with an edit awaiting approval applied)
+   * @param range - The range of content to format
+   * @returns The edits to apply to content
+   */
+  provideRangeFormatting?(
+    uri: UnifiedUri,
+    content: string,
+    range: DiskRange,
+  ): Promise<TextEdit[]>
+}
+
 /**
  * Provides document outline (symbols) for a file.
  */
@@ -111,6 +358,20 @@ export interface OutlineProvider {
   provideDocumentSymbols(uri: UnifiedUri): Promise<DocumentSymbol[]>
 }
 
+/**
+ * Provides workspace-wide symbol search.
+ */
+export interface WorkspaceSymbolProvider {
+  /**
+   * Finds symbols across the workspace whose names match a query.
+   *
+   * @param query - The search query, matched as the IDE sees fit (typically
+   * a fuzzy or prefix match on the symbol name)
+   * @returns Array of matching symbols, most relevant first
+   */
+  provideWorkspaceSymbols(query: string): Promise<WorkspaceSymbol[]>
+}
+
 /**
  * Search options for global find operations.
  */
@@ -195,21 +456,57 @@ export interface IdeCapabilities {
   /** Optional: Provides go-to-definition functionality */
   definition?: DefinitionProvider
 
+  /** Optional: Provides go-to-type-definition functionality */
+  typeDefinition?: TypeDefinitionProvider
+
+  /** Optional: Provides go-to-implementation functionality */
+  implementation?: ImplementationProvider
+
   /** Optional: Provides find-references functionality */
   references?: ReferencesProvider
 
+  /** Optional: Provides hover information (types, documentation) */
+  hover?: HoverProvider
+
+  /** Optional: Provides signature help for calls */
+  signatureHelp?: SignatureHelpProvider
+
+  /** Optional: Provides code completion suggestions */
+  completion?: CompletionProvider
+
   /** Optional: Provides call hierarchy functionality */
   hierarchy?: HierarchyProvider
 
+  /** Optional: Provides type hierarchy functionality */
+  typeHierarchy?: TypeHierarchyProvider
+
+  /** Optional: Provides semantic rename (requires userInteraction) */
+  rename?: RenameProvider
+
   /** Optional: Provides diagnostics for files */
   diagnostics?: DiagnosticsProvider
 
+  /** Optional: Provides code actions (applying them requires userInteraction) */
+  codeActions?: CodeActionProvider
+
+  /** Optional: Provides code formatting (requires userInteraction) */
+  formatting?: FormattingProvider
+
+  /** Optional: Provides inlay hints (inferred types, parameter names) */
+  inlayHints?: InlayHintsProvider
+
+  /** Optional: Provides semantic tokens (classified identifiers) */
+  semanticTokens?: SemanticTokensProvider
+
   /** Optional: Provides document outline (symbols) for files */
   outline?: OutlineProvider
 
   /** Optional: Provides global find and replace functionality */
   globalFind?: GlobalFindProvider
 
+  /** Optional: Provides workspace-wide symbol search */
+  workspaceSymbols?: WorkspaceSymbolProvider
+
   /**
    * Optional: Called by the driver to register a callback for diagnostics changes.
    * When this is provided, the diagnostics resources become subscribable.
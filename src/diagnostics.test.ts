@@ -0,0 +1,124 @@
+/**
+ * Unit tests for diagnostics change tracking.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  DiagnosticsChangeEmitter,
+  diffDiagnostics,
+  summarizeDiagnostic,
+} from './diagnostics.js'
+import type { Diagnostic } from './types.js'
+
+function diagnostic(
+  line: number,
+  message: string,
+  severity: Diagnostic['severity'] = 'error',
+): Diagnostic {
+  return {
+    uri: 'test.ts',
+    range: {
+      start: { line, character: 0 },
+      end: { line, character: 5 },
+    },
+    severity,
+    message,
+  }
+}
+
+describe('DiagnosticsChangeEmitter', () => {
+  it('should notify subscribers until they unsubscribe', () => {
+    const emitter = new DiagnosticsChangeEmitter()
+    const received: string[] = []
+    const unsubscribe = emitter.subscribe((uri) => received.push(uri))
+
+    emitter.emit('a.ts')
+    unsubscribe()
+    emitter.emit('b.ts')
+
+    expect(received).toStrictEqual(['a.ts'])
+  })
+
+  it('should resolve a watcher when diagnostics change for its URI', async () => {
+    const emitter = new DiagnosticsChangeEmitter()
+    const watcher = emitter.watch('src\\a.ts')
+
+    const waiting = watcher.wait(1000)
+    emitter.emit('src/other.ts')
+    emitter.emit('src/a.ts')
+
+    await expect(waiting).resolves.toBe(true)
+  })
+
+  it('should not miss changes emitted before wait is called', async () => {
+    const emitter = new DiagnosticsChangeEmitter()
+    const watcher = emitter.watch('a.ts')
+
+    emitter.emit('a.ts')
+
+    await expect(watcher.wait(1000)).resolves.toBe(true)
+  })
+
+  it('should resolve to false when the timeout elapses', async () => {
+    const emitter = new DiagnosticsChangeEmitter()
+    const watcher = emitter.watch('a.ts')
+
+    await expect(watcher.wait(5)).resolves.toBe(false)
+  })
+
+  it('should stop listening and settle a pending wait when disposed', async () => {
+    const emitter = new DiagnosticsChangeEmitter()
+    const watcher = emitter.watch('a.ts')
+    const waiting = watcher.wait(1000)
+
+    watcher.dispose()
+    emitter.emit('a.ts')
+
+    await expect(waiting).resolves.toBe(false)
+  })
+})
+
+describe('diffDiagnostics', () => {
+  it('should report introduced and resolved diagnostics', () => {
+    const before = [diagnostic(1, 'Unused variable'), diagnostic(4, 'Old')]
+    const after = [diagnostic(2, 'Unused variable'), diagnostic(7, 'New')]
+
+    const { introduced, resolved } = diffDiagnostics(before, after)
+
+    expect(introduced.map((d) => d.message)).toStrictEqual(['New'])
+    expect(resolved.map((d) => d.message)).toStrictEqual(['Old'])
+  })
+
+  it('should count duplicate diagnostics', () => {
+    const before = [diagnostic(1, 'Missing semicolon')]
+    const after = [
+      diagnostic(1, 'Missing semicolon'),
+      diagnostic(5, 'Missing semicolon'),
+    ]
+
+    const { introduced, resolved } = diffDiagnostics(before, after)
+
+    expect(introduced).toStrictEqual([after[1]])
+    expect(resolved).toStrictEqual([])
+  })
+
+  it('should treat a severity change as a different diagnostic', () => {
+    const { introduced, resolved } = diffDiagnostics(
+      [diagnostic(1, 'Deprecated', 'warning')],
+      [diagnostic(1, 'Deprecated', 'error')],
+    )
+
+    expect(introduced).toHaveLength(1)
+    expect(resolved).toHaveLength(1)
+  })
+})
+
+describe('summarizeDiagnostic', () => {
+  it('should use 1-based lines and omit missing fields', () => {
+    expect(summarizeDiagnostic(diagnostic(0, 'Oops'))).toStrictEqual({
+      line: 1,
+      severity: 'error',
+      message: 'Oops',
+    })
+  })
+})
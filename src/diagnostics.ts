@@ -0,0 +1,137 @@
+/**
+ * Diagnostics change tracking for post-edit feedback.
+ * @internal
+ */
+
+import type { OnDiagnosticsChangedCallback } from './capabilities.js'
+import { normalizeUri } from './formatting.js'
+import type { Diagnostic, DiagnosticSummary } from './types.js'
+
+/**
+ * Fans out the single onDiagnosticsChanged registration of the IDE
+ * to every interested part of the driver.
+ */
+export class DiagnosticsChangeEmitter {
+  private readonly listeners = new Set<OnDiagnosticsChangedCallback>()
+
+  /**
+   * Registers a listener.
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: OnDiagnosticsChangedCallback): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Notifies all listeners that diagnostics changed for a URI.
+   */
+  emit(uri: string): void {
+    for (const listener of [...this.listeners]) {
+      listener(uri)
+    }
+  }
+
+  /**
+   * Starts watching a URI for diagnostics changes. Changes that happen
+   * between this call and wait() are not missed.
+   *
+   * @returns A watcher whose wait() resolves to true once diagnostics changed
+   * for the URI, or false if the timeout elapsed first. dispose() stops
+   * watching (resolving a pending wait() to false) and must be called if
+   * wait() may not be.
+   */
+  watch(uri: string): {
+    wait(timeoutMs: number): Promise<boolean>
+    dispose(): void
+  } {
+    const target = normalizeUri(uri)
+    let changed = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let settle: ((refreshed: boolean) => void) | undefined
+
+    const unsubscribe = this.subscribe((changedUri) => {
+      if (normalizeUri(changedUri) !== target) return
+      changed = true
+      settle?.(true)
+    })
+    const dispose = () => {
+      clearTimeout(timer)
+      unsubscribe()
+      settle?.(false)
+    }
+
+    return {
+      wait: (timeoutMs) =>
+        new Promise<boolean>((resolve) => {
+          settle = (refreshed) => {
+            settle = undefined
+            clearTimeout(timer)
+            unsubscribe()
+            resolve(refreshed)
+          }
+          if (changed) {
+            settle(true)
+          } else {
+            timer = setTimeout(() => settle?.(false), timeoutMs)
+          }
+        }),
+      dispose,
+    }
+  }
+}
+
+/**
+ * Converts a diagnostic to its agent-facing summary with a 1-based line.
+ */
+export function summarizeDiagnostic(d: Diagnostic): DiagnosticSummary {
+  return {
+    line: d.range.start.line + 1,
+    severity: d.severity,
+    message: d.message,
+    ...(d.source !== undefined && { source: d.source }),
+    ...(d.code !== undefined && { code: d.code }),
+  }
+}
+
+/**
+ * Compares diagnostics captured before and after an edit.
+ * Diagnostics are matched by severity, source, code and message (not by
+ * range, since an edit shifts the lines of unrelated diagnostics).
+ */
+export function diffDiagnostics(
+  before: Diagnostic[],
+  after: Diagnostic[],
+): { introduced: Diagnostic[]; resolved: Diagnostic[] } {
+  const key = (d: Diagnostic) =>
+    JSON.stringify([d.severity, d.source ?? '', d.code ?? '', d.message])
+
+  const remaining = new Map<string, number>()
+  for (const d of before) {
+    remaining.set(key(d), (remaining.get(key(d)) ?? 0) + 1)
+  }
+
+  const introduced: Diagnostic[] = []
+  for (const d of after) {
+    const count = remaining.get(key(d)) ?? 0
+    if (count > 0) {
+      remaining.set(key(d), count - 1)
+    } else {
+      introduced.push(d)
+    }
+  }
+
+  // Whatever is left unmatched from before has been resolved
+  const resolved: Diagnostic[] = []
+  for (const d of [...before].reverse()) {
+    const count = remaining.get(key(d)) ?? 0
+    if (count > 0) {
+      remaining.set(key(d), count - 1)
+      resolved.unshift(d)
+    }
+  }
+
+  return { introduced, resolved }
+}
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for text edit utilities.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  applyTextEdits,
+  comparePositions,
+  diffToTextEdit,
+  findOverlappingEdits,
+  getTextInRange,
+  invertTextEdits,
+  sortEdits,
+} from './edits.js'
+import type { TextEdit } from './types.js'
+
+function edit(
+  startLine: number,
+  startChar: number,
+  endLine: number,
+  endChar: number,
+  newText = '',
+): TextEdit {
+  return {
+    range: {
+      start: { line: startLine, character: startChar },
+      end: { line: endLine, character: endChar },
+    },
+    newText,
+  }
+}
+
+describe('comparePositions', () => {
+  it('should order by line first, then character', () => {
+    expect(
+      comparePositions({ line: 1, character: 9 }, { line: 2, character: 0 }),
+    ).toBeLessThan(0)
+    expect(
+      comparePositions({ line: 2, character: 4 }, { line: 2, character: 1 }),
+    ).toBeGreaterThan(0)
+    expect(
+      comparePositions({ line: 3, character: 3 }, { line: 3, character: 3 }),
+    ).toBe(0)
+  })
+})
+
+describe('sortEdits', () => {
+  it('should sort edits by start position without mutating the input', () => {
+    const edits = [edit(4, 0, 4, 2), edit(0, 5, 0, 6), edit(0, 1, 0, 2)]
+    const sorted = sortEdits(edits)
+
+    expect(sorted.map((e) => e.range.start)).toStrictEqual([
+      { line: 0, character: 1 },
+      { line: 0, character: 5 },
+      { line: 4, character: 0 },
+    ])
+    expect(edits[0]?.range.start.line).toBe(4)
+  })
+})
+
+describe('findOverlappingEdits', () => {
+  it('should return null for disjoint edits', () => {
+    expect(
+      findOverlappingEdits([edit(2, 0, 3, 0), edit(0, 0, 1, 5)]),
+    ).toBeNull()
+  })
+
+  it('should allow edits that touch at a boundary', () => {
+    expect(
+      findOverlappingEdits([edit(0, 0, 0, 5), edit(0, 5, 0, 9)]),
+    ).toBeNull()
+  })
+
+  it('should return the overlapping pair in document order', () => {
+    const first = edit(1, 0, 2, 4)
+    const second = edit(2, 2, 2, 8)
+    expect(findOverlappingEdits([second, first])).toStrictEqual([first, second])
+  })
+})
+
+describe('getTextInRange', () => {
+  it('should return text spanning several lines', () => {
+    expect(getTextInRange('abc\ndef', edit(0, 1, 1, 2).range)).toBe('bc\nde')
+  })
+})
+
+describe('applyTextEdits', () => {
+  it('should apply edits regardless of their order', () => {
+    const content = 'const a = 1\nconst b = 2'
+    const edits = [edit(1, 10, 1, 11, '20'), edit(0, 6, 0, 7, 'alpha')]
+    expect(applyTextEdits(content, edits)).toBe('const alpha = 1\nconst b = 20')
+  })
+})
+
+describe('diffToTextEdit', () => {
+  it('should replace only the text between the common prefix and suffix', () => {
+    expect(diffToTextEdit('const a=1', 'const a = 1')).toStrictEqual(
+      edit(0, 7, 0, 8, ' = '),
+    )
+    expect(
+      diffToTextEdit('if (x) {\ny()}', 'if (x) {\n  y()\n}'),
+    ).toStrictEqual(edit(1, 0, 1, 3, '  y()\n'))
+  })
+
+  it('should return null for equal contents', () => {
+    expect(diffToTextEdit('same', 'same')).toBeNull()
+  })
+
+  it('should not split surrogate pairs', () => {
+    expect(diffToTextEdit('"😀"', '"😁"')).toStrictEqual(edit(0, 1, 0, 3, '😁'))
+    expect(diffToTextEdit('"😀"', '"😁"', 'utf-32')).toStrictEqual(
+      edit(0, 1, 0, 2, '😁'),
+    )
+  })
+})
+
+describe('invertTextEdits', () => {
+  function roundTrip(content: string, edits: TextEdit[]): string {
+    const originalTexts = edits.map((e) => getTextInRange(content, e.range))
+    const edited = applyTextEdits(content, edits)
+    return applyTextEdits(edited, invertTextEdits(edits, originalTexts))
+  }
+
+  it('should restore content after edits on the same line', () => {
+    const content = 'foo(a, b, c)'
+    const edits = [edit(0, 4, 0, 5, 'alpha'), edit(0, 10, 0, 11, '')]
+    expect(roundTrip(content, edits)).toBe(content)
+  })
+
+  it('should restore content after edits that add and remove lines', () => {
+    const content = 'line 1\nline 2\nline 3\nline 4'
+    const edits = [
+      edit(0, 5, 1, 4, 'one\nand\ntwo'),
+      edit(2, 0, 3, 0, ''),
+      edit(3, 6, 3, 6, '\nline 5'),
+    ]
+    expect(roundTrip(content, edits)).toBe(content)
+  })
+
+  it('should compute ranges against the edited content', () => {
+    const inverse = invertTextEdits([edit(0, 0, 1, 0, 'x')], ['old\n'])
+    expect(inverse).toStrictEqual([edit(0, 0, 0, 1, 'old\n')])
+  })
+})
+
+describe('edits with non-BMP text', () => {
+  // '😀' is two UTF-16 code units, four UTF-8 bytes and one code point
+  const content = 'const s = "😀"; const x = 1'
+
+  it('should locate ranges in each position encoding', () => {
+    expect(getTextInRange(content, edit(0, 22, 0, 23).range)).toBe('x')
+    expect(getTextInRange(content, edit(0, 24, 0, 25).range, 'utf-8')).toBe('x')
+    expect(getTextInRange(content, edit(0, 21, 0, 22).range, 'utf-32')).toBe(
+      'x',
+    )
+  })
+
+  it('should invert edits that insert non-BMP text', () => {
+    const edits = [edit(0, 12, 0, 12, '🎉'), edit(0, 21, 0, 22, 'y')]
+    const originalTexts = edits.map((e) =>
+      getTextInRange(content, e.range, 'utf-32'),
+    )
+    const edited = applyTextEdits(content, edits, 'utf-32')
+    expect(edited).toBe('const s = "😀🎉"; const y = 1')
+
+    const inverse = invertTextEdits(edits, originalTexts, 'utf-32')
+    expect(inverse[1]?.range.start).toStrictEqual({ line: 0, character: 22 })
+    expect(applyTextEdits(edited, inverse, 'utf-32')).toBe(content)
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * Utilities for working with text edits.
+ * @internal
+ */
+
+import {
+  encodedLength,
+  offsetToPosition,
+  positionToOffset,
+} from './positions.js'
+import type {
+  DiskRange,
+  ExactPosition,
+  PendingEditOperation,
+  PendingWorkspaceEditOperation,
+  PositionEncoding,
+  TextEdit,
+  UnifiedUri,
+} from './types.js'
+
+/**
+ * Compares two positions.
+ * @returns A negative number if a is before b, positive if after, 0 if equal
+ */
+export function comparePositions(a: ExactPosition, b: ExactPosition): number {
+  return a.line === b.line ? a.character - b.character : a.line - b.line
+}
+
+/**
+ * Sorts edits by their start position (stable for equal starts).
+ */
+export function sortEdits(edits: TextEdit[]): TextEdit[] {
+  return [...edits].sort(
+    (a, b) =>
+      comparePositions(a.range.start, b.range.start) ||
+      comparePositions(a.range.end, b.range.end),
+  )
+}
+
+/**
+ * Finds the first pair of overlapping edits.
+ * Edits that merely touch (one ends where the next starts) do not overlap.
+ *
+ * @returns The overlapping pair in document order, or null if all edits are disjoint
+ */
+export function findOverlappingEdits(
+  edits: TextEdit[],
+): [TextEdit, TextEdit] | null {
+  const sorted = sortEdits(edits)
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1] as TextEdit
+    const current = sorted[i] as TextEdit
+    if (comparePositions(current.range.start, previous.range.end) < 0) {
+      return [previous, current]
+    }
+  }
+  return null
+}
+
+/**
+ * Returns the text covered by a range.
+ */
+export function getTextInRange(
+  content: string,
+  range: DiskRange,
+  encoding: PositionEncoding = 'utf-16',
+): string {
+  return content.slice(
+    positionToOffset(content, range.start, encoding),
+    positionToOffset(content, range.end, encoding),
+  )
+}
+
+/**
+ * Applies non-overlapping edits to content.
+ */
+export function applyTextEdits(
+  content: string,
+  edits: TextEdit[],
+  encoding: PositionEncoding = 'utf-16',
+): string {
+  // Apply from the end so earlier offsets stay valid
+  let result = content
+  for (const edit of sortEdits(edits).reverse()) {
+    const start = positionToOffset(result, edit.range.start, encoding)
+    const end = positionToOffset(result, edit.range.end, encoding)
+    result = result.slice(0, start) + edit.newText + result.slice(end)
+  }
+  return result
+}
+
+/**
+ * Builds a single edit that turns one content into another, replacing the
+ * text between their common prefix and common suffix.
+ *
+ * @returns The edit against `before`, or null if the contents are equal
+ */
+export function diffToTextEdit(
+  before: string,
+  after: string,
+  encoding: PositionEncoding = 'utf-16',
+): TextEdit | null {
+  if (before === after) return null
+
+  const maxPrefix = Math.min(before.length, after.length)
+  let prefix = 0
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < maxPrefix - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  // Do not split surrogate pairs
+  if (prefix > 0 && isHighSurrogate(before.charCodeAt(prefix - 1))) {
+    prefix--
+  }
+  if (suffix > 0 && isLowSurrogate(before.charCodeAt(before.length - suffix))) {
+    suffix--
+  }
+
+  return {
+    range: {
+      start: offsetToPosition(before, prefix, encoding),
+      end: offsetToPosition(before, before.length - suffix, encoding),
+    },
+    newText: after.slice(prefix, after.length - suffix),
+  }
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff
+}
+
+/**
+ * Builds the edits that revert a set of applied edits.
+ *
+ * @param edits - The non-overlapping edits that were applied
+ * @param originalTexts - The text each edit replaced, in the same order as edits
+ * @returns Edits against the post-edit content that restore the original text
+ */
+export function invertTextEdits(
+  edits: TextEdit[],
+  originalTexts: string[],
+  encoding: PositionEncoding = 'utf-16',
+): TextEdit[] {
+  const order = edits
+    .map((edit, index) => ({ edit, originalText: originalTexts[index] ?? '' }))
+    .sort(
+      (a, b) =>
+        comparePositions(a.edit.range.start, b.edit.range.start) ||
+        comparePositions(a.edit.range.end, b.edit.range.end),
+    )
+
+  // End of the previous edit before and after it was applied
+  let lastOriginalEnd: ExactPosition = { line: 0, character: 0 }
+  let lastNewEnd: ExactPosition = { line: 0, character: 0 }
+
+  return order.map(({ edit, originalText }) => {
+    const { start, end } = edit.range
+    const newStart: ExactPosition = {
+      line: start.line + lastNewEnd.line - lastOriginalEnd.line,
+      character:
+        start.line === lastOriginalEnd.line
+          ? lastNewEnd.character + start.character - lastOriginalEnd.character
+          : start.character,
+    }
+
+    const insertedLines = edit.newText.split('\n')
+    const lastInsertedLength = encodedLength(
+      insertedLines[insertedLines.length - 1] ?? '',
+      encoding,
+    )
+    const newEnd: ExactPosition =
+      insertedLines.length === 1
+        ? {
+            line: newStart.line,
+            character: newStart.character + lastInsertedLength,
+          }
+        : {
+            line: newStart.line + insertedLines.length - 1,
+            character: lastInsertedLength,
+          }
+
+    lastOriginalEnd = end
+    lastNewEnd = newEnd
+    return { range: { start: newStart, end: newEnd }, newText: originalText }
+  })
+}
+
+/**
+ * Lists the text edits of an operation per file.
+ */
+export function editsByFile(
+  operation: PendingEditOperation | PendingWorkspaceEditOperation,
+): [UnifiedUri, TextEdit[]][] {
+  if ('edit' in operation) {
+    return Object.entries(operation.edit.changes).filter(
+      ([, edits]) => edits.length > 0,
+    )
+  }
+  return [[operation.uri, operation.edits]]
+}
@@ -4,11 +4,17 @@
 
 import { describe, expect, it } from 'vitest'
 import {
+  computeContentVersion,
   formatDiagnosticsAsMarkdown,
+  formatEditHistoryAsMarkdown,
+  formatSemanticTokens,
   formatSymbolsAsMarkdown,
+  generateEditId,
   normalizeUri,
+  renderInlayHints,
 } from './formatting.js'
-import type { Diagnostic, DocumentSymbol } from './types.js'
+import type { EditJournalEntry } from './journal.js'
+import type { Diagnostic, DocumentSymbol, SemanticToken } from './types.js'
 
 describe('normalizeUri', () => {
   it('should handle Windows-style paths', () => {
@@ -39,6 +45,30 @@ describe('normalizeUri', () => {
   })
 })
 
+describe('generateEditId', () => {
+  it('should generate distinct IDs when called in quick succession', () => {
+    expect(generateEditId()).not.toBe(generateEditId())
+  })
+})
+
+describe('computeContentVersion', () => {
+  it('should return the same version for identical content', () => {
+    expect(computeContentVersion('const a = 1;')).toBe(
+      computeContentVersion('const a = 1;'),
+    )
+  })
+
+  it('should return a different version when content changes', () => {
+    expect(computeContentVersion('const a = 1;')).not.toBe(
+      computeContentVersion('const a = 2;'),
+    )
+  })
+
+  it('should return a short hex string', () => {
+    expect(computeContentVersion('')).toMatch(/^[0-9a-f]{16}$/)
+  })
+})
+
 describe('formatDiagnosticsAsMarkdown', () => {
   it('should format various diagnostic severities', () => {
     const diagnostics: Diagnostic[] = [
@@ -211,3 +241,163 @@ describe('formatSymbolsAsMarkdown', () => {
     expect(result).toContain('    - **method** `constructor`')
   })
 })
+
+describe('formatEditHistoryAsMarkdown', () => {
+  const entry = (
+    id: string,
+    extra: Partial<EditJournalEntry> = {},
+  ): EditJournalEntry => ({
+    operation: {
+      id,
+      uri: 'file:///test.ts',
+      edits: [
+        {
+          range: {
+            start: { line: 4, character: 0 },
+            end: { line: 4, character: 3 },
+          },
+          newText: 'bar',
+        },
+      ],
+      description: 'Rename foo',
+    },
+    originalTexts: ['foo'],
+    version: 'abc',
+    appliedAt: new Date('2024-01-01T00:00:00.000Z'),
+    ...extra,
+  })
+
+  it('should list edits with their undo state', () => {
+    const result = formatEditHistoryAsMarkdown([
+      entry('edit-1', { undoneBy: 'edit-2' }),
+      entry('edit-2', { undoOf: 'edit-1' }),
+    ])
+    expect(result).toBe(
+      [
+        '- **edit-1** `file:///test.ts` at line(s) 5: Rename foo (2024-01-01T00:00:00.000Z) - undone by `edit-2`',
+        '- **edit-2** `file:///test.ts` at line(s) 5 (undo of `edit-1`): Rename foo (2024-01-01T00:00:00.000Z)',
+      ].join('\n'),
+    )
+  })
+
+  it('should handle an empty history', () => {
+    expect(formatEditHistoryAsMarkdown([])).toBe('No edits applied yet.')
+  })
+})
+
+describe('renderInlayHints', () => {
+  it('should render hints inline between markers', () => {
+    const content = 'const total = sum(items)\nreturn total'
+    const result = renderInlayHints(content, [
+      { position: { line: 0, character: 18 }, label: 'values:' },
+      { position: { line: 0, character: 11 }, label: ': number' },
+    ])
+    expect(result).toBe(
+      'const total«: number» = sum(«values:»items)\nreturn total',
+    )
+  })
+
+  it('should keep hints at the same position in order', () => {
+    const result = renderInlayHints('f(x)', [
+      { position: { line: 0, character: 2 }, label: 'a:' },
+      { position: { line: 0, character: 2 }, label: '...' },
+    ])
+    expect(result).toBe('f(«a:»«...»x)')
+  })
+
+  it('should locate hints in the given position encoding', () => {
+    const content = 'const s = "😀"; const n = f(1)'
+    const result = renderInlayHints(
+      content,
+      [
+        { position: { line: 0, character: 25 }, label: ': number' },
+        { position: { line: 0, character: 30 }, label: 'x:' },
+      ],
+      'utf-8',
+    )
+    expect(result).toBe('const s = "😀"; const n«: number» = f(«x:»1)')
+  })
+})
+
+describe('formatSemanticTokens', () => {
+  const token = (
+    line: number,
+    character: number,
+    length: number,
+    type: string,
+    modifiers?: string[],
+  ): SemanticToken => ({
+    range: {
+      start: { line, character },
+      end: { line, character: character + length },
+    },
+    type,
+    ...(modifiers && { modifiers }),
+  })
+
+  const content = 'function f(x) {\n  const x = 1\n  return x\n}'
+  const tokens = [
+    token(2, 9, 1, 'variable', ['readonly']),
+    token(0, 9, 1, 'function', ['declaration']),
+    token(0, 11, 1, 'parameter', ['declaration']),
+    token(1, 8, 1, 'variable', ['declaration', 'readonly']),
+  ]
+
+  it('should list each line with its tokens and a legend of used names', () => {
+    const view = formatSemanticTokens(content, tokens, { start: 1, end: 4 })
+    expect(view).toStrictEqual({
+      legend: {
+        types: ['function', 'parameter', 'variable'],
+        modifiers: ['declaration', 'readonly'],
+      },
+      lines: [
+        {
+          line: 1,
+          text: 'function f(x) {',
+          tokens: [
+            [10, 1, 0, 0],
+            [12, 1, 1, 0],
+          ],
+        },
+        { line: 2, text: '  const x = 1', tokens: [[9, 1, 2, 0, 1]] },
+        { line: 3, text: '  return x', tokens: [[10, 1, 2, 1]] },
+        { line: 4, text: '}', tokens: [] },
+      ],
+    })
+  })
+
+  it('should only include lines in the range', () => {
+    const view = formatSemanticTokens(content, tokens, { start: 3, end: 10 })
+    expect(view).toStrictEqual({
+      legend: { types: ['variable'], modifiers: ['readonly'] },
+      lines: [
+        { line: 3, text: '  return x', tokens: [[10, 1, 0, 0]] },
+        { line: 4, text: '}', tokens: [] },
+      ],
+    })
+  })
+
+  it('should stop at the end of the file', () => {
+    const view = formatSemanticTokens(`${content}\n`, tokens, {
+      start: 4,
+      end: 10,
+    })
+    expect(view).toStrictEqual({
+      legend: { types: [], modifiers: [] },
+      lines: [{ line: 4, text: '}', tokens: [] }],
+    })
+    expect(
+      formatSemanticTokens(content, tokens, { start: 5, end: 10 }).lines,
+    ).toStrictEqual([])
+  })
+
+  it('should convert columns from the position encoding', () => {
+    const view = formatSemanticTokens(
+      'log("😀", x)',
+      [token(0, 12, 1, 'variable')],
+      { start: 1, end: 1 },
+      'utf-8',
+    )
+    expect(view.lines[0]?.tokens).toStrictEqual([[11, 1, 0]])
+  })
+})
@@ -3,7 +3,17 @@
  * @internal
  */
 
-import type { Diagnostic, DocumentSymbol } from './types.js'
+import { createHash } from 'node:crypto'
+import { editsByFile } from './edits.js'
+import type { EditJournalEntry } from './journal.js'
+import { fromEncodedCharacter } from './positions.js'
+import type {
+  Diagnostic,
+  DocumentSymbol,
+  InlayHint,
+  PositionEncoding,
+  SemanticToken,
+} from './types.js'
 
 export const makeToolResult = <T extends { [x: string]: unknown }>(
   result: T,
@@ -32,11 +42,22 @@ export function normalizeUri(uri: string): string {
   return uri.replace(/\\/g, '/')
 }
 
+let editIdCounter = 0
+
 /**
  * Generates a unique ID for pending edit operations.
  */
 export function generateEditId(): string {
-  return `edit-${Date.now()}`
+  editIdCounter++
+  return `edit-${Date.now()}-${editIdCounter}`
+}
+
+/**
+ * Computes a short content version (hash) used to detect files that
+ * changed between being read and being edited.
+ */
+export function computeContentVersion(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16)
 }
 
 /**
@@ -88,3 +109,152 @@ export function formatSymbolsAsMarkdown(
     })
     .join('\n')
 }
+
+/**
+ * Renders inlay hints into file content, each wrapped in « » so that it
+ * cannot be mistaken for code.
+ */
+export function renderInlayHints(
+  content: string,
+  hints: InlayHint[],
+  encoding: PositionEncoding = 'utf-16',
+): string {
+  const lines = content.split('\n')
+  const hintsByLine = new Map<number, InlayHint[]>()
+  for (const hint of hints) {
+    const lineHints = hintsByLine.get(hint.position.line) ?? []
+    lineHints.push(hint)
+    hintsByLine.set(hint.position.line, lineHints)
+  }
+
+  for (const [line, lineHints] of hintsByLine) {
+    const text = lines[line]
+    if (text === undefined) continue
+
+    // Insert from the end of the line so earlier indexes stay valid
+    const inserts = lineHints
+      .map((hint, order) => ({
+        index: fromEncodedCharacter(text, hint.position.character, encoding),
+        order,
+        label: hint.label.replace(/\s*\r?\n\s*/g, ' '),
+      }))
+      .sort((a, b) => b.index - a.index || b.order - a.order)
+    let rendered = text
+    for (const { index, label } of inserts) {
+      rendered = `${rendered.slice(0, index)}«${label}»${rendered.slice(index)}`
+    }
+    lines[line] = rendered
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Lines of a file with the semantic tokens on each line. Each token is
+ * [column, length, type, ...modifiers]: a 1-based column and a length in
+ * UTF-16 code units, and indexes into the legend.
+ */
+export interface SemanticTokensView {
+  legend: { types: string[]; modifiers: string[] }
+  lines: { line: number; text: string; tokens: number[][] }[]
+}
+
+/**
+ * Builds a compact view of the semantic tokens of a range of lines. The
+ * legend only lists the types and modifiers used in the range.
+ *
+ * @param range - 1-based line range { start, end }
+ */
+export function formatSemanticTokens(
+  content: string,
+  tokens: SemanticToken[],
+  range: { start: number; end: number },
+  encoding: PositionEncoding = 'utf-16',
+): SemanticTokensView {
+  const fileLines = content.split(/\r?\n/)
+  // A final line break ends the last line rather than starting a new one
+  if (fileLines.length > 1 && fileLines.at(-1) === '') fileLines.pop()
+  const types: string[] = []
+  const modifiers: string[] = []
+  const indexOf = (names: string[], name: string) => {
+    const index = names.indexOf(name)
+    return index === -1 ? names.push(name) - 1 : index
+  }
+
+  const tokensByLine = new Map<number, SemanticToken[]>()
+  for (const token of tokens) {
+    const lineTokens = tokensByLine.get(token.range.start.line) ?? []
+    lineTokens.push(token)
+    tokensByLine.set(token.range.start.line, lineTokens)
+  }
+
+  const lines: SemanticTokensView['lines'] = []
+  const last = Math.min(range.end, fileLines.length)
+  for (let line = range.start; line <= last; line++) {
+    const text = fileLines[line - 1] ?? ''
+    lines.push({
+      line,
+      text,
+      tokens: (tokensByLine.get(line - 1) ?? [])
+        .sort((a, b) => a.range.start.character - b.range.start.character)
+        .map((token) => {
+          const start = fromEncodedCharacter(
+            text,
+            token.range.start.character,
+            encoding,
+          )
+          // Tokens never span lines; clamp any that do to the line end
+          const end =
+            token.range.end.line === token.range.start.line
+              ? fromEncodedCharacter(text, token.range.end.character, encoding)
+              : text.length
+          return [
+            start + 1,
+            end - start,
+            indexOf(types, token.type),
+            ...(token.modifiers ?? []).map((name) => indexOf(modifiers, name)),
+          ]
+        }),
+    })
+  }
+
+  return { legend: { types, modifiers }, lines }
+}
+
+/**
+ * Formats the edit journal as markdown for resource content.
+ */
+export function formatEditHistoryAsMarkdown(
+  entries: readonly EditJournalEntry[],
+): string {
+  if (entries.length === 0) {
+    return 'No edits applied yet.'
+  }
+
+  return entries
+    .map((entry) => {
+      const { id, description } = entry.operation
+      const files = editsByFile(entry.operation)
+        .map(([uri, edits]) => {
+          const lines = [
+            ...new Set(edits.map((edit) => edit.range.start.line + 1)),
+          ].join(', ')
+          return `\`${uri}\` at line(s) ${lines}`
+        })
+        .join('; ')
+      const fileOperations =
+        'edit' in entry.operation
+          ? (entry.operation.edit.fileOperations?.length ?? 0)
+          : 0
+      const changes = [
+        ...(files ? [files] : []),
+        ...(fileOperations > 0 ? [`${fileOperations} file operation(s)`] : []),
+      ].join('; ')
+      const undoOf = entry.undoOf ? ` (undo of \`${entry.undoOf}\`)` : ''
+      const undone = entry.undoneBy ? ` - undone by \`${entry.undoneBy}\`` : ''
+      const irreversible = entry.irreversible ? ' - cannot be undone' : ''
+      const rationale = description ? `: ${description}` : ''
+      return `- **${id}** ${changes}${undoOf}${rationale} (${entry.appliedAt.toISOString()})${undone}${irreversible}`
+    })
+    .join('\n')
+}
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for multi-level call hierarchies.
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import type { HierarchyProvider } from './capabilities.js'
+import { buildCallTree, locateCallHierarchyItem } from './hierarchy.js'
+import type { FileAccessProvider } from './interfaces.js'
+import { SymbolResolver } from './resolver.js'
+import type { CallHierarchyItem, ExactPosition } from './types.js'
+
+const uri = 'file:///app.ts'
+
+/** Functions by name, each declared on its own line */
+const lines: Record<string, number> = { main: 0, a: 1, b: 2, c: 3 }
+
+function item(name: string): CallHierarchyItem {
+  const line = lines[name] as number
+  return {
+    uri,
+    name,
+    range: {
+      start: { line, character: 0 },
+      end: { line, character: 20 },
+    },
+    selectionRange: {
+      start: { line, character: 9 },
+      end: { line, character: 9 + name.length },
+    },
+    content: `function ${name}() {}`,
+  }
+}
+
+/**
+ * A provider for the call graph main -> a, b; a -> c; b -> c; c -> a.
+ */
+function createProvider(): HierarchyProvider {
+  const callees: Record<number, string[]> = {
+    0: ['a', 'b'],
+    1: ['c'],
+    2: ['c'],
+    3: ['a'],
+  }
+  return {
+    provideCallHierarchy: vi.fn(async (_uri, position: ExactPosition) =>
+      (callees[position.line] ?? []).map(item),
+    ),
+  }
+}
+
+async function build(maxDepth: number, provider = createProvider()) {
+  const root = { uri, position: { line: 0, character: 9 } }
+  const firstLevel = await provider.provideCallHierarchy(
+    uri,
+    root.position,
+    'outgoing',
+  )
+  return buildCallTree(
+    provider,
+    root,
+    'outgoing',
+    firstLevel,
+    maxDepth,
+    async (callee) => callee.selectionRange?.start ?? callee.range.start,
+  )
+}
+
+describe('buildCallTree', () => {
+  it('should return the first level without expanding it', async () => {
+    const tree = await build(1)
+
+    expect(tree).toStrictEqual({
+      calls: [
+        { uri, name: 'a', line: 2 },
+        { uri, name: 'b', line: 3 },
+      ],
+      truncated: false,
+    })
+  })
+
+  it('should walk several levels and mark repeated functions', async () => {
+    const provider = createProvider()
+    const tree = await build(4, provider)
+
+    expect(tree).toStrictEqual({
+      calls: [
+        {
+          uri,
+          name: 'a',
+          line: 2,
+          calls: [
+            {
+              uri,
+              name: 'c',
+              line: 4,
+              calls: [{ uri, name: 'a', line: 2, repeated: true }],
+            },
+          ],
+        },
+        {
+          uri,
+          name: 'b',
+          line: 3,
+          calls: [{ uri, name: 'c', line: 4, repeated: true }],
+        },
+      ],
+      truncated: false,
+    })
+    // Root, a, b and c are each expanded once
+    expect(provider.provideCallHierarchy).toHaveBeenCalledTimes(4)
+  })
+
+  it('should detect cycles through a differently written URI', async () => {
+    const root = { uri: 'src/app.ts', position: { line: 0, character: 9 } }
+    const callers: Record<number, CallHierarchyItem[]> = {
+      // a is called by main, reported with Windows separators
+      1: [{ ...item('main'), uri: 'src\\app.ts' }],
+    }
+    const provider: HierarchyProvider = {
+      provideCallHierarchy: vi.fn(
+        async (_uri, position: ExactPosition) => callers[position.line] ?? [],
+      ),
+    }
+
+    const tree = await buildCallTree(
+      provider,
+      root,
+      'incoming',
+      [{ ...item('a'), uri: 'src/app.ts' }],
+      4,
+      async (caller) => caller.selectionRange?.start ?? caller.range.start,
+    )
+
+    expect(tree.calls[0]?.calls).toStrictEqual([
+      { uri: 'src\\app.ts', name: 'main', line: 1, repeated: true },
+    ])
+    // Only a is expanded; main is the root
+    expect(provider.provideCallHierarchy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop at the maximum depth', async () => {
+    const tree = await build(2)
+
+    expect(tree.calls[0]).toStrictEqual({
+      uri,
+      name: 'a',
+      line: 2,
+      calls: [{ uri, name: 'c', line: 4 }],
+    })
+  })
+
+  it('should truncate large trees', async () => {
+    const provider: HierarchyProvider = {
+      provideCallHierarchy: vi.fn(async (_uri, position: ExactPosition) =>
+        Array.from({ length: 50 }, (_, i) => ({
+          uri: `file:///gen${position.line}-${i}.ts`,
+          range: {
+            start: { line: position.line + 1, character: 0 },
+            end: { line: position.line + 1, character: 1 },
+          },
+          content: '',
+        })),
+      ),
+    }
+
+    const tree = await build(3, provider)
+
+    expect(tree.truncated).toBe(true)
+    expect(tree.calls).toHaveLength(50)
+  })
+})
+
+describe('locateCallHierarchyItem', () => {
+  const fs: FileAccessProvider = {
+    readFile: vi.fn(async () => '@traced\nexport function save() {}'),
+    readDirectory: vi.fn(async () => []),
+  }
+  const resolver = new SymbolResolver(fs)
+  const range = {
+    start: { line: 0, character: 0 },
+    end: { line: 1, character: 25 },
+  }
+
+  it('should use the selection range', async () => {
+    const position = await locateCallHierarchyItem(resolver, item('a'))
+
+    expect(position).toStrictEqual({ line: 1, character: 9 })
+    expect(fs.readFile).not.toHaveBeenCalled()
+  })
+
+  it('should find the name near the start of the item', async () => {
+    const position = await locateCallHierarchyItem(resolver, {
+      uri,
+      name: 'save',
+      range,
+      content: '',
+    })
+
+    expect(position).toStrictEqual({ line: 1, character: 16 })
+  })
+
+  it('should fall back to the start of the item', async () => {
+    const position = await locateCallHierarchyItem(resolver, {
+      uri,
+      range,
+      content: '',
+    })
+
+    expect(position).toStrictEqual({ line: 0, character: 0 })
+  })
+})
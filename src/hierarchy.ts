@@ -0,0 +1,139 @@
+/**
+ * Walking the call hierarchy over several levels.
+ * @internal
+ */
+
+import type { HierarchyProvider } from './capabilities.js'
+import { normalizeUri } from './formatting.js'
+import type { SymbolResolver } from './resolver.js'
+import type { CallHierarchyItem, ExactPosition, UnifiedUri } from './types.js'
+
+/**
+ * Maximum number of nodes in a call tree, to bound the provider calls made
+ * for a single tool call.
+ */
+export const MAX_CALL_TREE_NODES = 200
+
+/**
+ * A caller or callee in a call tree.
+ */
+export interface CallTreeNode {
+  uri: UnifiedUri
+  name?: string
+  /** 1-based line of the function's name */
+  line: number
+  /** Next level of callers or callees; absent beyond the maximum depth */
+  calls?: CallTreeNode[]
+  /** Set if the function appears earlier in the tree (e.g., recursion) */
+  repeated?: true
+}
+
+export interface CallTree {
+  calls: CallTreeNode[]
+  /** Whether the tree was cut off at MAX_CALL_TREE_NODES */
+  truncated: boolean
+}
+
+interface PendingLevel {
+  uri: UnifiedUri
+  position: ExactPosition
+  calls: CallTreeNode[]
+}
+
+/**
+ * Builds a call tree level by level, so that a function reachable through
+ * several paths is expanded where it is closest to the root.
+ *
+ * @param provider - The IDE's call hierarchy provider
+ * @param root - The function the tree starts from
+ * @param direction - Whether to follow incoming or outgoing calls
+ * @param firstLevel - The items the provider returned for the root
+ * @param maxDepth - Number of levels, including the first
+ * @param locate - Finds the position of an item's name, for the next level
+ */
+export async function buildCallTree(
+  provider: HierarchyProvider,
+  root: { uri: UnifiedUri; position: ExactPosition },
+  direction: 'incoming' | 'outgoing',
+  firstLevel: CallHierarchyItem[],
+  maxDepth: number,
+  locate: (item: CallHierarchyItem) => Promise<ExactPosition>,
+): Promise<CallTree> {
+  // Providers may report the same file under differently written URIs
+  const key = (uri: UnifiedUri, position: ExactPosition) =>
+    `${normalizeUri(uri)}:${position.line}:${position.character}`
+  const visited = new Set([key(root.uri, root.position)])
+
+  const calls: CallTreeNode[] = []
+  let nodeCount = 0
+  let level: PendingLevel[] = [{ ...root, calls }]
+
+  for (let depth = 1; depth <= maxDepth && level.length > 0; depth++) {
+    const nextLevel: PendingLevel[] = []
+    for (const parent of level) {
+      const items =
+        depth === 1
+          ? firstLevel
+          : await provider.provideCallHierarchy(
+              parent.uri,
+              parent.position,
+              direction,
+            )
+
+      for (const item of items) {
+        if (nodeCount >= MAX_CALL_TREE_NODES) {
+          return { calls, truncated: true }
+        }
+        nodeCount++
+
+        const position = await locate(item)
+        const node: CallTreeNode = {
+          uri: item.uri,
+          ...(item.name && { name: item.name }),
+          line: position.line + 1,
+        }
+        parent.calls.push(node)
+
+        const itemKey = key(item.uri, position)
+        if (visited.has(itemKey)) {
+          node.repeated = true
+          continue
+        }
+        visited.add(itemKey)
+
+        if (depth < maxDepth) {
+          node.calls = []
+          nextLevel.push({ uri: item.uri, position, calls: node.calls })
+        }
+      }
+    }
+    level = nextLevel
+  }
+
+  return { calls, truncated: false }
+}
+
+/**
+ * Finds the position of a call hierarchy item's name: the start of its
+ * selection range, else its name near the start of the item, else the start
+ * of the item.
+ */
+export async function locateCallHierarchyItem(
+  resolver: SymbolResolver,
+  item: CallHierarchyItem,
+): Promise<ExactPosition> {
+  if (item.selectionRange) {
+    return item.selectionRange.start
+  }
+  if (item.name) {
+    try {
+      return await resolver.resolvePosition(item.uri, {
+        symbolName: item.name,
+        lineHint: item.range.start.line + 1,
+      })
+    } catch {
+      // Not found (e.g., a decorated or generated name); use the item start
+    }
+  }
+  return item.range.start
+}
@@ -9,44 +9,87 @@
 
 // Capability Providers
 export type {
+  CodeActionProvider,
+  CompletionProvider,
   DefinitionProvider,
   DiagnosticsProvider,
+  FormattingProvider,
   GlobalFindMatch,
   GlobalFindOptions,
   GlobalFindProvider,
   HierarchyProvider,
+  HoverProvider,
   IdeCapabilities,
+  ImplementationProvider,
+  InlayHintsProvider,
   OnDiagnosticsChangedCallback,
   OutlineProvider,
   ReferencesProvider,
+  RenameProvider,
+  SemanticTokensProvider,
+  SignatureHelpProvider,
+  TypeDefinitionProvider,
+  TypeHierarchyProvider,
+  WorkspaceSymbolProvider,
 } from './capabilities.js'
 
 // Infrastructure Interfaces
 export type {
   FileAccessProvider,
+  FileStat,
+  OnFileChangedCallback,
   UserInteractionProvider,
 } from './interfaces.js'
-export type { ResolverConfig } from './resolver.js'
+export type {
+  ResolutionStrategy,
+  ResolverConfig,
+  TextSearchOptions,
+} from './resolver.js'
 
 // Symbol Resolver
-export { SymbolResolutionError, SymbolResolver } from './resolver.js'
+export {
+  SymbolResolutionError,
+  SymbolResolver,
+  TextSearchError,
+} from './resolver.js'
 export type { McpLspDriverConfig } from './server.js'
 
 // Driver
 export { installMcpLspDriver } from './server.js'
 // Core Data Models
 export type {
+  CallHierarchyItem,
+  CodeAction,
   CodeSnippet,
+  CompletionItem,
+  CompletionItemKind,
   Diagnostic,
   DiagnosticSeverity,
+  DiagnosticSummary,
+  DiagnosticsChange,
   DiskRange,
   DocumentSymbol,
   EditFailureReason,
   EditResult,
   ExactPosition,
+  FileEditSummary,
+  FileOperation,
   FuzzyPosition,
+  HoverInfo,
+  InlayHint,
+  MarkupKind,
+  ParameterInformation,
   PendingEditOperation,
+  PendingWorkspaceEditOperation,
+  PositionEncoding,
+  SemanticToken,
+  SignatureHelp,
+  SignatureInformation,
+  SymbolCandidate,
   SymbolKind,
   TextEdit,
+  TypeHierarchyItem,
   UnifiedUri,
+  WorkspaceEdit,
+  WorkspaceSymbol,
 } from './types.js'
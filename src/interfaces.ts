@@ -5,12 +5,33 @@
  * to bridge the SDK to the specific IDE.
  */
 
-import type { PendingEditOperation, UnifiedUri } from './types.js'
+import type {
+  PendingEditOperation,
+  PendingWorkspaceEditOperation,
+  UnifiedUri,
+} from './types.js'
 
 // ============================================================================
 // File System Access (Required)
 // ============================================================================
 
+/**
+ * Metadata used to tell whether a file has changed.
+ */
+export interface FileStat {
+  /**
+   * Any value that changes whenever the file content changes, such as the
+   * modification time combined with the size, or the document version.
+   */
+  version: string | number
+}
+
+/**
+ * Callback that gets invoked when a file is saved or changed on disk.
+ * Used to invalidate cached file contents.
+ */
+export type OnFileChangedCallback = (uri: UnifiedUri) => void
+
 /**
  * Provides access to the file system for reading files.
  * Since the SDK is responsible for resolving FuzzyPosition to ExactPosition,
@@ -27,6 +48,17 @@ export interface FileAccessProvider {
    */
   readFile(uri: UnifiedUri): Promise<string>
 
+  /**
+   * Reads the content of a file split into lines (without line endings).
+   * If not provided, the content from readFile is split. The returned array
+   * may be shared and must not be modified.
+   *
+   * @param uri - The URI of the file to read
+   * @returns The lines of the file
+   * @throws Error if the file cannot be read
+   */
+  readLines?: (uri: UnifiedUri) => Promise<string[]>
+
   /**
    * Read children in a directory, exluding git-ignored files, similar to Unix `ls` command
    * @param relativePath - The path to the folder to read
@@ -41,6 +73,27 @@ export interface FileAccessProvider {
    * @returns Array of file/folder paths in the directory tree
    */
   getFileTree?: (relativePath: UnifiedUri) => Promise<string[]>
+
+  /**
+   * Returns the current version of a file without reading it.
+   * When provided, file contents are cached between tool calls and shared
+   * by symbol resolution, file resources and edit validation; a file is
+   * only re-read when its version changes.
+   *
+   * @param uri - The URI of the file
+   * @returns The file's version
+   * @throws Error if the file does not exist
+   */
+  stat?: (uri: UnifiedUri) => Promise<FileStat>
+
+  /**
+   * Registers a callback that the IDE invokes when a file is saved or
+   * changed on disk, so that its cached content is dropped even if its
+   * version appears unchanged.
+   *
+   * @param callback - The callback to invoke with the changed file's URI
+   */
+  onFileChanged?: (callback: OnFileChangedCallback) => void
 }
 
 // ============================================================================
@@ -60,4 +113,18 @@ export interface UserInteractionProvider {
    * @returns true if applied, false if rejected/cancelled
    */
   previewAndApplyEdits(operation: PendingEditOperation): Promise<boolean>
+
+  /**
+   * Displays changes spanning several files, or creating, renaming or
+   * deleting files, for approval. The changes must be applied atomically:
+   * either every file operation and text edit is applied, or none are.
+   * If not provided, apply_workspace_edit is not offered and multi-file
+   * edits (e.g., renames across files) are refused.
+   *
+   * @param operation - The pending workspace edit operation to preview
+   * @returns true if applied, false if rejected/cancelled
+   */
+  previewAndApplyWorkspaceEdit?(
+    operation: PendingWorkspaceEditOperation,
+  ): Promise<boolean>
 }
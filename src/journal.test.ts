@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the edit journal.
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { applyTextEdits } from './edits.js'
+import { computeContentVersion } from './formatting.js'
+import { EditJournal, type EditJournalFile } from './journal.js'
+import type {
+  PendingEditOperation,
+  PendingWorkspaceEditOperation,
+} from './types.js'
+
+function operation(id: string, newText = 'bar'): PendingEditOperation {
+  return {
+    id,
+    uri: 'file:///test.ts',
+    edits: [
+      {
+        range: {
+          start: { line: 0, character: 6 },
+          end: { line: 0, character: 9 },
+        },
+        newText,
+      },
+    ],
+    description: 'Rename foo',
+  }
+}
+
+function snapshot(before: string, after = before.replace('foo', 'bar')) {
+  return new Map([['file:///test.ts', { before, after }]])
+}
+
+describe('EditJournal', () => {
+  it('should record replaced text and the post-edit version', () => {
+    const journal = new EditJournal()
+    const entry = journal.record(operation('edit-1'), snapshot('const foo = 1'))
+
+    expect(entry.files).toStrictEqual([
+      {
+        uri: 'file:///test.ts',
+        edits: operation('edit-1').edits,
+        originalTexts: ['foo'],
+        version: computeContentVersion('const bar = 1'),
+      },
+    ])
+    expect(entry.irreversible).toBeUndefined()
+    expect(journal.get('edit-1')).toBe(entry)
+  })
+
+  it('should record a file that changed during review as irreversible', () => {
+    const journal = new EditJournal()
+    const entry = journal.record(
+      operation('edit-1'),
+      snapshot('const foo = 1', 'const bar = 10'),
+    )
+
+    expect(entry.files).toStrictEqual([])
+    expect(entry.irreversible).toBe(
+      'File file:///test.ts changed while the edit was being reviewed.',
+    )
+  })
+
+  it('should record each file of a workspace edit', () => {
+    const journal = new EditJournal()
+    const { edits } = operation('edit-1')
+    const workspaceOperation: PendingWorkspaceEditOperation = {
+      id: 'edit-1',
+      edit: { changes: { 'file:///a.ts': edits, 'file:///b.ts': edits } },
+    }
+    const entry = journal.record(
+      workspaceOperation,
+      new Map([
+        ['file:///a.ts', { before: 'const foo = 1', after: 'const bar = 1' }],
+        ['file:///b.ts', { before: 'const foo = 2', after: 'const bar = 2' }],
+      ]),
+    )
+
+    expect(entry.files.map((file) => file.uri)).toStrictEqual([
+      'file:///a.ts',
+      'file:///b.ts',
+    ])
+    expect(entry.files[1]?.version).toBe(computeContentVersion('const bar = 2'))
+  })
+
+  it('should record workspace edits with file operations as irreversible', () => {
+    const journal = new EditJournal()
+    const entry = journal.record(
+      {
+        id: 'edit-1',
+        edit: {
+          changes: {},
+          fileOperations: [{ kind: 'delete', uri: 'file:///test.ts' }],
+        },
+      },
+      new Map(),
+    )
+
+    expect(entry.irreversible).toBe('It created, renamed or deleted files.')
+  })
+
+  it('should notify subscribers when an entry is recorded', () => {
+    const journal = new EditJournal()
+    const listener = vi.fn()
+    const unsubscribe = journal.subscribe(listener)
+
+    journal.record(operation('edit-1'), snapshot('const foo = 1'))
+    unsubscribe()
+    journal.record(operation('edit-2'), snapshot('const foo = 1'))
+
+    expect(listener).toHaveBeenCalledOnce()
+  })
+
+  it('should build inverse edits that restore the original content', () => {
+    const journal = new EditJournal()
+    const entry = journal.record(
+      operation('edit-1', 'longer'),
+      snapshot('const foo = 1', 'const longer = 1'),
+    )
+    const [file] = entry.files
+
+    expect(file).toBeDefined()
+    expect(
+      applyTextEdits(
+        'const longer = 1',
+        journal.buildInverseEdits(file as EditJournalFile),
+      ),
+    ).toBe('const foo = 1')
+  })
+
+  it('should mark entries undone and skip them when picking the latest', () => {
+    const journal = new EditJournal()
+    journal.record(operation('edit-1'), snapshot('const foo = 1'))
+    journal.record(operation('edit-2'), snapshot('const foo = 2'))
+    journal.record(
+      operation('edit-3', 'foo'),
+      snapshot('const bar = 2', 'const foo = 2'),
+      'edit-2',
+    )
+
+    expect(journal.get('edit-2')?.undoneBy).toBe('edit-3')
+    expect(journal.latestUndoable()?.operation.id).toBe('edit-1')
+  })
+
+  it('should drop the oldest entries beyond its capacity', () => {
+    const journal = new EditJournal('utf-16', 2)
+    journal.record(operation('edit-1'), snapshot('const foo = 1'))
+    journal.record(operation('edit-2'), snapshot('const foo = 2'))
+    journal.record(operation('edit-3'), snapshot('const foo = 3'))
+
+    expect(journal.list().map((e) => e.operation.id)).toStrictEqual([
+      'edit-2',
+      'edit-3',
+    ])
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Journal of edits applied through the driver, used for undo.
+ * @internal
+ */
+
+import {
+  applyTextEdits,
+  editsByFile,
+  getTextInRange,
+  invertTextEdits,
+} from './edits.js'
+import { computeContentVersion } from './formatting.js'
+import type {
+  PendingEditOperation,
+  PendingWorkspaceEditOperation,
+  PositionEncoding,
+  TextEdit,
+  UnifiedUri,
+} from './types.js'
+
+/**
+ * The content of a file right before and right after an operation was
+ * applied to it.
+ */
+export interface FileSnapshot {
+  before: string
+  after: string
+}
+
+/**
+ * The changes an operation made to one file.
+ */
+export interface EditJournalFile {
+  uri: UnifiedUri
+  /** The edits applied to the file */
+  edits: TextEdit[]
+  /** The text each edit replaced, in the same order as edits */
+  originalTexts: string[]
+  /** Content version the file had right after the edit */
+  version: string
+}
+
+/**
+ * An approved edit operation recorded in the journal.
+ */
+export interface EditJournalEntry {
+  /** The operation as it was approved by the user */
+  operation: PendingEditOperation | PendingWorkspaceEditOperation
+  /** The changes made to each file, empty if the entry cannot be undone */
+  files: EditJournalFile[]
+  /** Why the entry cannot be undone, if it cannot */
+  irreversible?: string
+  /** When the edit was applied */
+  appliedAt: Date
+  /** ID of the edit this entry undid, if it is an undo */
+  undoOf?: string
+  /** ID of the edit that undid this entry, if any */
+  undoneBy?: string
+}
+
+/**
+ * Keeps the most recent edits applied during a session, so that they can
+ * be listed and reverted.
+ */
+export class EditJournal {
+  private readonly entries: EditJournalEntry[] = []
+  private readonly listeners = new Set<() => void>()
+
+  constructor(
+    private readonly encoding: PositionEncoding = 'utf-16',
+    private readonly maxEntries = 100,
+  ) {}
+
+  /**
+   * Registers a listener called whenever an entry is recorded.
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Records an approved operation.
+   *
+   * An operation that creates, renames or deletes files, or whose files do
+   * not hold exactly the edited content afterwards (because they changed
+   * while the operation was being reviewed), is recorded as irreversible.
+   *
+   * @param operation - The operation that was applied
+   * @param snapshots - The content of each edited file around the operation,
+   * keyed by URI; not needed for operations with file operations
+   * @param undoOf - ID of the entry this operation undoes, if any
+   */
+  record(
+    operation: PendingEditOperation | PendingWorkspaceEditOperation,
+    snapshots: ReadonlyMap<UnifiedUri, FileSnapshot>,
+    undoOf?: string,
+  ): EditJournalEntry {
+    const files: EditJournalFile[] = []
+    let irreversible: string | undefined
+
+    if ('edit' in operation && operation.edit.fileOperations?.length) {
+      irreversible = 'It created, renamed or deleted files.'
+    } else {
+      for (const [uri, edits] of editsByFile(operation)) {
+        const snapshot = snapshots.get(uri)
+        if (
+          !snapshot ||
+          applyTextEdits(snapshot.before, edits, this.encoding) !==
+            snapshot.after
+        ) {
+          irreversible = `File ${uri} changed while the edit was being reviewed.`
+          break
+        }
+        files.push({
+          uri,
+          edits,
+          originalTexts: edits.map((edit) =>
+            getTextInRange(snapshot.before, edit.range, this.encoding),
+          ),
+          version: computeContentVersion(snapshot.after),
+        })
+      }
+    }
+
+    const entry: EditJournalEntry = {
+      operation,
+      files: irreversible === undefined ? files : [],
+      ...(irreversible !== undefined && { irreversible }),
+      appliedAt: new Date(),
+      ...(undoOf !== undefined && { undoOf }),
+    }
+
+    if (undoOf !== undefined) {
+      const undone = this.get(undoOf)
+      if (undone) undone.undoneBy = operation.id
+    }
+
+    this.entries.push(entry)
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift()
+    }
+    for (const listener of [...this.listeners]) {
+      listener()
+    }
+    return entry
+  }
+
+  /**
+   * Finds an entry by edit ID.
+   */
+  get(id: string): EditJournalEntry | undefined {
+    return this.entries.find((entry) => entry.operation.id === id)
+  }
+
+  /**
+   * Finds the most recent edit that has not been undone and is not itself
+   * an undo.
+   */
+  latestUndoable(): EditJournalEntry | undefined {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i] as EditJournalEntry
+      if (entry.undoneBy === undefined && entry.undoOf === undefined) {
+        return entry
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Builds the edits that revert the changes to one file, against its
+   * post-edit content.
+   */
+  buildInverseEdits(file: EditJournalFile): TextEdit[] {
+    return invertTextEdits(file.edits, file.originalTexts, this.encoding)
+  }
+
+  /**
+   * Lists all entries, oldest first.
+   */
+  list(): readonly EditJournalEntry[] {
+    return this.entries
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for position encoding conversions.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  encodedLength,
+  fromEncodedCharacter,
+  offsetToPosition,
+  positionToOffset,
+  toEncodedCharacter,
+} from './positions.js'
+
+// '😀' (U+1F600) is outside the BMP: 2 UTF-16 code units, 4 UTF-8 bytes
+// and 1 code point. 'é' is 1 UTF-16 code unit and 2 UTF-8 bytes.
+const line = 'a😀é b'
+
+describe('encodedLength', () => {
+  it('should count code units in each encoding', () => {
+    expect(encodedLength(line, 'utf-16')).toBe(6)
+    expect(encodedLength(line, 'utf-8')).toBe(9)
+    expect(encodedLength(line, 'utf-32')).toBe(5)
+  })
+})
+
+describe('toEncodedCharacter', () => {
+  it('should convert a UTF-16 index to each encoding', () => {
+    // Index of 'b'
+    expect(toEncodedCharacter(line, 5, 'utf-16')).toBe(5)
+    expect(toEncodedCharacter(line, 5, 'utf-8')).toBe(8)
+    expect(toEncodedCharacter(line, 5, 'utf-32')).toBe(4)
+  })
+})
+
+describe('fromEncodedCharacter', () => {
+  it('should convert a character in each encoding to a UTF-16 index', () => {
+    expect(fromEncodedCharacter(line, 5, 'utf-16')).toBe(5)
+    expect(fromEncodedCharacter(line, 8, 'utf-8')).toBe(5)
+    expect(fromEncodedCharacter(line, 4, 'utf-32')).toBe(5)
+  })
+
+  it('should not split a surrogate pair', () => {
+    expect(fromEncodedCharacter(line, 2, 'utf-8')).toBe(3)
+  })
+
+  it('should clamp characters past the end of the line', () => {
+    expect(fromEncodedCharacter(line, 99, 'utf-16')).toBe(6)
+    expect(fromEncodedCharacter(line, 99, 'utf-8')).toBe(6)
+  })
+})
+
+describe('offsetToPosition', () => {
+  const content = `first\n${line}\nlast`
+
+  it('should convert offsets to positions in each encoding', () => {
+    const offset = content.indexOf('b')
+    expect(offsetToPosition(content, offset)).toStrictEqual({
+      line: 1,
+      character: 5,
+    })
+    expect(offsetToPosition(content, offset, 'utf-8')).toStrictEqual({
+      line: 1,
+      character: 8,
+    })
+    expect(offsetToPosition(content, offset, 'utf-32')).toStrictEqual({
+      line: 1,
+      character: 4,
+    })
+  })
+
+  it('should place an offset right after a newline at the next line start', () => {
+    expect(offsetToPosition(content, 6)).toStrictEqual({
+      line: 1,
+      character: 0,
+    })
+  })
+})
+
+describe('positionToOffset', () => {
+  const content = 'abc\ndef\n\nghi'
+
+  it('should convert line/character positions to offsets', () => {
+    expect(positionToOffset(content, { line: 0, character: 0 })).toBe(0)
+    expect(positionToOffset(content, { line: 1, character: 2 })).toBe(6)
+    expect(positionToOffset(content, { line: 3, character: 3 })).toBe(12)
+  })
+
+  it('should clamp positions past the end of a line or the content', () => {
+    expect(positionToOffset(content, { line: 0, character: 10 })).toBe(3)
+    expect(positionToOffset(content, { line: 9, character: 0 })).toBe(12)
+  })
+
+  it('should round-trip positions in each encoding', () => {
+    const text = `x\n${line}`
+    for (const encoding of ['utf-16', 'utf-8', 'utf-32'] as const) {
+      for (let offset = 0; offset <= text.length; offset++) {
+        // Offsets inside a surrogate pair are not valid positions
+        if (offset === 4) continue
+        const position = offsetToPosition(text, offset, encoding)
+        expect(positionToOffset(text, position, encoding)).toBe(offset)
+      }
+    }
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Conversions between string offsets and line/character positions in a
+ * given position encoding.
+ *
+ * JavaScript strings are indexed in UTF-16 code units; positions exchanged
+ * with the IDE count characters in the configured PositionEncoding.
+ * @internal
+ */
+
+import type { ExactPosition, PositionEncoding } from './types.js'
+
+/**
+ * Returns the number of code units a code point takes in an encoding.
+ */
+function codeUnits(codePoint: number, encoding: PositionEncoding): number {
+  switch (encoding) {
+    case 'utf-16':
+      return codePoint > 0xffff ? 2 : 1
+    case 'utf-32':
+      return 1
+    case 'utf-8':
+      if (codePoint < 0x80) return 1
+      if (codePoint < 0x800) return 2
+      if (codePoint < 0x10000) return 3
+      return 4
+  }
+}
+
+/**
+ * Returns the length of text in the code units of an encoding.
+ */
+export function encodedLength(
+  text: string,
+  encoding: PositionEncoding,
+): number {
+  if (encoding === 'utf-16') return text.length
+
+  let length = 0
+  for (const char of text) {
+    length += codeUnits(char.codePointAt(0) as number, encoding)
+  }
+  return length
+}
+
+/**
+ * Converts a UTF-16 index within a line to a character in an encoding.
+ */
+export function toEncodedCharacter(
+  lineText: string,
+  index: number,
+  encoding: PositionEncoding,
+): number {
+  return encodedLength(lineText.slice(0, index), encoding)
+}
+
+/**
+ * Converts a character in an encoding to a UTF-16 index within a line.
+ * Characters past the end of the line are clamped to the line length.
+ */
+export function fromEncodedCharacter(
+  lineText: string,
+  character: number,
+  encoding: PositionEncoding,
+): number {
+  if (encoding === 'utf-16') return Math.min(character, lineText.length)
+
+  let index = 0
+  let units = 0
+  while (index < lineText.length && units < character) {
+    const codePoint = lineText.codePointAt(index) as number
+    units += codeUnits(codePoint, encoding)
+    index += codePoint > 0xffff ? 2 : 1
+  }
+  return index
+}
+
+/**
+ * Converts a UTF-16 offset in the content to a line/character position.
+ */
+export function offsetToPosition(
+  content: string,
+  offset: number,
+  encoding: PositionEncoding = 'utf-16',
+): ExactPosition {
+  let line = 0
+  let lineStart = 0
+  for (
+    let newline = content.indexOf('\n');
+    newline !== -1 && newline < offset;
+    newline = content.indexOf('\n', newline + 1)
+  ) {
+    line++
+    lineStart = newline + 1
+  }
+  return {
+    line,
+    character: encodedLength(content.slice(lineStart, offset), encoding),
+  }
+}
+
+/**
+ * Converts a line/character position to a UTF-16 offset in the content.
+ * Positions past the end of a line or of the content are clamped.
+ */
+export function positionToOffset(
+  content: string,
+  position: ExactPosition,
+  encoding: PositionEncoding = 'utf-16',
+): number {
+  let offset = 0
+  for (let line = 0; line < position.line; line++) {
+    const newline = content.indexOf('\n', offset)
+    if (newline === -1) return content.length
+    offset = newline + 1
+  }
+  const lineEnd = content.indexOf('\n', offset)
+  const lineText = content.slice(
+    offset,
+    lineEnd === -1 ? content.length : lineEnd,
+  )
+  return offset + fromEncodedCharacter(lineText, position.character, encoding)
+}
@@ -1,6 +1,12 @@
 import { describe, expect, it, vi } from 'vitest'
+import type { OutlineProvider } from './capabilities.js'
 import type { FileAccessProvider } from './interfaces.js'
-import { SymbolResolutionError, SymbolResolver } from './resolver.js'
+import {
+  SymbolResolutionError,
+  SymbolResolver,
+  TextSearchError,
+} from './resolver.js'
+import type { DocumentSymbol } from './types.js'
 
 // Helper to create a mock FileAccessProvider
 function createMockFileAccess(
@@ -221,6 +227,41 @@ target
       }
     })
 
+    it('should rank candidates from the whole file by distance from the hint, lines above first', async () => {
+      const lines = Array.from({ length: 20 }, () => '')
+      lines[0] = 'import { target } from "./target"'
+      lines[9] = '  target()'
+      lines[17] = 'export default target'
+      const fs = createMockFileAccess({ 'test.ts': lines.join('\n') })
+      const resolver = new SymbolResolver(fs)
+
+      const error = await resolver
+        .resolvePosition('test.ts', { symbolName: 'target', lineHint: 14 })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(SymbolResolutionError)
+      expect((error as SymbolResolutionError).candidates).toStrictEqual([
+        { line: 10, text: 'target()', distance: 4 },
+        { line: 18, text: 'export default target', distance: 4 },
+        { line: 1, text: 'import { target } from "./target"', distance: 13 },
+      ])
+      expect((error as SymbolResolutionError).message).toContain(
+        'It occurs at line(s) 10, 18, 1.',
+      )
+    })
+
+    it('should report no candidates when the symbol is absent', async () => {
+      const fs = createMockFileAccess({ 'test.ts': 'const foo = 1' })
+      const resolver = new SymbolResolver(fs)
+
+      await expect(
+        resolver.resolvePosition('test.ts', {
+          symbolName: 'bar',
+          lineHint: 1,
+        }),
+      ).rejects.toMatchObject({ candidates: [] })
+    })
+
     it('should throw when occurrence orderHint exceeds available occurrences', async () => {
       const fileContent = 'foo foo' // only 2 occurrences
       const fs = createMockFileAccess({ 'test.ts': fileContent })
@@ -235,6 +276,35 @@ target
       ).rejects.toThrow(SymbolResolutionError)
     })
 
+    it('should count orderHint across the searched lines', async () => {
+      const fileContent = 'let total = 0\ntotal += 1\nreturn total'
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs)
+
+      // The hinted line first, then nearest lines with lines above first
+      const position = await resolver.resolvePosition('test.ts', {
+        symbolName: 'total',
+        lineHint: 2,
+        orderHint: 2,
+      })
+
+      expect(position).toStrictEqual({ line: 2, character: 7 })
+    })
+
+    it('should report a line hint past the end of the file', async () => {
+      const fs = createMockFileAccess({ 'test.ts': 'const foo = 1\nfoo += 1' })
+      const resolver = new SymbolResolver(fs)
+
+      await expect(
+        resolver.resolvePosition('test.ts', {
+          symbolName: 'foo',
+          lineHint: 40,
+        }),
+      ).rejects.toThrow(
+        "Could not find symbol 'foo' at or near line 40. Please verify the file content and try again. Line 40 is past the end of the file (2 line(s)). It occurs at line(s) 2, 1.",
+      )
+    })
+
     it('should handle files with CRLF line endings', async () => {
       const fileContent = 'line1\r\nconst target = 1;\r\nline3'
       const fs = createMockFileAccess({ 'test.ts': fileContent })
@@ -275,6 +345,64 @@ target
     })
   })
 
+  describe('resolvePositionAfter', () => {
+    const fs = createMockFileAccess({
+      'test.ts': 'const total = order.items.length',
+      'emoji.ts': 'const s = "😀"; user.name',
+    })
+
+    it('should resolve to the end of the symbol', async () => {
+      const resolver = new SymbolResolver(fs)
+
+      const position = await resolver.resolvePositionAfter('test.ts', {
+        symbolName: 'order',
+        lineHint: 1,
+      })
+
+      expect(position).toStrictEqual({ line: 0, character: 19 })
+    })
+
+    it('should resolve to the end of the text following the symbol', async () => {
+      const resolver = new SymbolResolver(fs)
+
+      const position = await resolver.resolvePositionAfter(
+        'test.ts',
+        { symbolName: 'order', lineHint: 1 },
+        '.',
+      )
+
+      expect(position).toStrictEqual({ line: 0, character: 20 })
+    })
+
+    it('should count the position in the configured encoding', async () => {
+      const resolver = new SymbolResolver(fs, { positionEncoding: 'utf-8' })
+
+      const position = await resolver.resolvePositionAfter(
+        'emoji.ts',
+        { symbolName: 'user', lineHint: 1 },
+        '.',
+      )
+
+      expect(position).toStrictEqual({ line: 0, character: 23 })
+    })
+
+    it('should fail when the text does not follow the symbol', async () => {
+      const resolver = new SymbolResolver(fs)
+
+      await expect(
+        resolver.resolvePositionAfter(
+          'test.ts',
+          { symbolName: 'items', lineHint: 1 },
+          'order',
+        ),
+      ).rejects.toMatchObject({
+        name: 'TextSearchError',
+        reason: 'NotFound',
+        message: 'Text not found after \'items\' on line 1: "order"',
+      })
+    })
+  })
+
   describe('findExactText', () => {
     it('should find unique text and return its range', async () => {
       const fileContent = 'const foo = 42;'
@@ -331,6 +459,39 @@ function target() {
       )
     })
 
+    it('should throw TextSearchError with NotFound reason', async () => {
+      const fs = createMockFileAccess({ 'test.ts': 'const foo = 42;' })
+      const resolver = new SymbolResolver(fs)
+
+      const error = await resolver
+        .findExactText('test.ts', 'nonexistent')
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(TextSearchError)
+      const err = error as TextSearchError
+      expect(err.reason).toBe('NotFound')
+      expect(err.matchCount).toBe(0)
+      expect(err.candidateLines).toStrictEqual([])
+    })
+
+    it('should report candidate lines for ambiguous matches', async () => {
+      const fs = createMockFileAccess({
+        'test.ts': 'foo\nbar\nfoo foo\r\nbaz\nfoo',
+      })
+      const resolver = new SymbolResolver(fs)
+
+      const error = await resolver
+        .findExactText('test.ts', 'foo')
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(TextSearchError)
+      const err = error as TextSearchError
+      expect(err.reason).toBe('Ambiguous')
+      expect(err.matchCount).toBe(4)
+      expect(err.candidateLines).toStrictEqual([1, 3, 3, 5])
+      expect(err.message).toContain('lines 1, 3, 3, 5')
+    })
+
     it('should truncate long text in error message', async () => {
       const fileContent = 'short content'
       const fs = createMockFileAccess({ 'test.ts': fileContent })
@@ -375,6 +536,609 @@ function target() {
       expect(range.end.character).toBe(11)
     })
   })
+
+  describe('whitespace-tolerant matching', () => {
+    const fileContent = `class Greeter {
+    greet(name) {
+        if (!name) {
+            return 'Hello'
+        }   
+        return 'Hello, ' + name
+    }
+}`
+
+    it('should not ignore whitespace by default', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs)
+
+      await expect(
+        resolver.findExactText('test.ts', "  if (!name) {\n    return 'Hello'"),
+      ).rejects.toThrow('Text not found')
+    })
+
+    it('should match despite indentation and trailing whitespace differences', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs)
+
+      const range = await resolver.findExactText(
+        'test.ts',
+        "if (!name) {\n\treturn 'Hello'\n}",
+        { ignoreWhitespace: true },
+      )
+
+      expect(range).toStrictEqual({
+        start: { line: 2, character: 0 },
+        end: { line: 4, character: 9 },
+      })
+    })
+
+    it('should re-indent the replacement to match the file', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs, { ignoreWhitespace: true })
+
+      const edit = await resolver.resolveTextEdit(
+        'test.ts',
+        "if (!name) {\n  return 'Hello'\n}",
+        "if (!name) {\n  return 'Hi'\n}\nlog(name)",
+      )
+
+      expect(edit.newText).toBe(
+        "        if (!name) {\n            return 'Hi'\n        }\n        log(name)",
+      )
+    })
+
+    it('should allow partial first and last lines', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs, { ignoreWhitespace: true })
+
+      const edit = await resolver.resolveTextEdit(
+        'test.ts',
+        "'Hello'\n}\nreturn 'Hello, '",
+        "'Hi'\n}\nreturn 'Hi, '",
+      )
+
+      expect(edit.range).toStrictEqual({
+        start: { line: 3, character: 19 },
+        end: { line: 5, character: 24 },
+      })
+      expect(edit.newText).toBe("'Hi'\n        }\n        return 'Hi, '")
+    })
+
+    it('should map inconsistent model indentation line by line', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs, { ignoreWhitespace: true })
+
+      const edit = await resolver.resolveTextEdit(
+        'test.ts',
+        "return 'Hello'\n  }",
+        "return 'Hi'\n  }",
+      )
+
+      expect(edit.newText).toBe("            return 'Hi'\n        }")
+    })
+
+    it('should use the file line endings in the replacement', async () => {
+      const fs = createMockFileAccess({ 'test.ts': 'a {\r\n  b\r\n}' })
+      const resolver = new SymbolResolver(fs)
+
+      const edit = await resolver.resolveTextEdit(
+        'test.ts',
+        'a {\n\tb',
+        'a {\n\tc',
+        { ignoreWhitespace: true },
+      )
+
+      expect(edit.range).toStrictEqual({
+        start: { line: 0, character: 0 },
+        end: { line: 1, character: 3 },
+      })
+      expect(edit.newText).toBe('a {\r\n  c')
+    })
+
+    it('should prefer an exact match and leave the replacement unchanged', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs, { ignoreWhitespace: true })
+
+      const edit = await resolver.resolveTextEdit(
+        'test.ts',
+        "return 'Hello, '",
+        "return  'Hi, '",
+      )
+
+      expect(edit.newText).toBe("return  'Hi, '")
+      expect(edit.range.start).toStrictEqual({ line: 5, character: 8 })
+    })
+
+    it('should still require a unique match', async () => {
+      const fs = createMockFileAccess({
+        'test.ts': 'if (a) {\n  x()\n}\nif (b) {\n\tx()\n}',
+      })
+      const resolver = new SymbolResolver(fs, { ignoreWhitespace: true })
+
+      await expect(
+        resolver.findExactText('test.ts', '    x()\n}'),
+      ).rejects.toMatchObject({
+        reason: 'Ambiguous',
+        candidateLines: [2, 5],
+      })
+    })
+
+    it('should report NotFound when nothing matches', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs, { ignoreWhitespace: true })
+
+      await expect(
+        resolver.findExactText('test.ts', 'return  name'),
+      ).rejects.toMatchObject({ reason: 'NotFound' })
+    })
+
+    it('should let a call disable the configured mode', async () => {
+      const fs = createMockFileAccess({ 'test.ts': fileContent })
+      const resolver = new SymbolResolver(fs, { ignoreWhitespace: true })
+
+      await expect(
+        resolver.findExactText('test.ts', 'greet(name)  {', {
+          ignoreWhitespace: false,
+        }),
+      ).rejects.toMatchObject({ reason: 'NotFound' })
+    })
+  })
+})
+
+describe('symbol path resolution', () => {
+  const fileContent = `export class UserService {
+  findById(id: string) {
+    return this.repo.find(id)
+  }
+
+  findById(id: number) {
+    return this.repo.find(String(id))
+  }
+
+  save(user: User) {
+    return this.repo.save(user)
+  }
+}`
+
+  function symbol(
+    name: string,
+    line: number,
+    character: number,
+    endLine: number,
+    children?: DocumentSymbol[],
+  ): DocumentSymbol {
+    return {
+      name,
+      kind: children ? 'class' : 'method',
+      range: {
+        start: { line, character: 0 },
+        end: { line: endLine, character: 3 },
+      },
+      selectionRange: {
+        start: { line, character },
+        end: { line, character: character + name.length },
+      },
+      ...(children && { children }),
+    }
+  }
+
+  const outline: OutlineProvider = {
+    provideDocumentSymbols: vi.fn(async () => [
+      symbol('UserService', 0, 13, 12, [
+        symbol('findById', 1, 2, 3),
+        symbol('findById', 5, 2, 7),
+        symbol('save(user)', 9, 2, 11),
+      ]),
+    ]),
+  }
+
+  function createResolver() {
+    return new SymbolResolver(
+      createMockFileAccess({ 'test.ts': fileContent }),
+      undefined,
+      outline,
+    )
+  }
+
+  it('should resolve a symbol path without a line hint', async () => {
+    const position = await createResolver().resolvePosition('test.ts', {
+      symbolName: 'findById',
+      symbolPath: 'UserService.findById',
+    })
+
+    expect(position).toStrictEqual({ line: 1, character: 2 })
+  })
+
+  it('should use the line hint to choose between same-named symbols', async () => {
+    const position = await createResolver().resolvePosition('test.ts', {
+      symbolName: 'findById',
+      symbolPath: 'UserService.findById',
+      lineHint: 20,
+    })
+
+    expect(position).toStrictEqual({ line: 5, character: 2 })
+  })
+
+  it('should match names that include a parameter list', async () => {
+    const position = await createResolver().resolvePosition('test.ts', {
+      symbolName: 'save',
+      symbolPath: 'UserService.save',
+    })
+
+    expect(position).toStrictEqual({ line: 9, character: 2 })
+  })
+
+  it('should search for other symbols within the symbol path', async () => {
+    const position = await createResolver().resolvePosition('test.ts', {
+      symbolName: 'repo',
+      symbolPath: 'UserService.save',
+    })
+
+    expect(position).toStrictEqual({ line: 10, character: 16 })
+  })
+
+  it('should prefer the line nearest the hint within the symbol', async () => {
+    const position = await createResolver().resolvePosition('test.ts', {
+      symbolName: 'user',
+      symbolPath: 'UserService.save',
+      lineHint: 11,
+    })
+
+    expect(position).toStrictEqual({ line: 10, character: 26 })
+  })
+
+  it('should list available members when a path segment is missing', async () => {
+    await expect(
+      createResolver().resolvePosition('test.ts', {
+        symbolName: 'remove',
+        symbolPath: 'UserService.remove',
+      }),
+    ).rejects.toThrow(
+      "'UserService' has no member 'remove'. Available: findById, save(user).",
+    )
+  })
+
+  it('should reject symbol paths without an outline provider', async () => {
+    const resolver = new SymbolResolver(
+      createMockFileAccess({ 'test.ts': fileContent }),
+    )
+
+    await expect(
+      resolver.resolvePosition('test.ts', {
+        symbolName: 'save',
+        symbolPath: 'UserService.save',
+      }),
+    ).rejects.toThrow(SymbolResolutionError)
+  })
+
+  it('should require a line hint when no symbol path is given', async () => {
+    await expect(
+      createResolver().resolvePosition('test.ts', { symbolName: 'save' }),
+    ).rejects.toThrow(
+      "Could not find symbol 'save'. Please provide a line hint or a symbol path.",
+    )
+  })
+})
+
+describe('identifier boundaries', () => {
+  it('should prefer whole-identifier matches over substrings', async () => {
+    const fs = createMockFileAccess({
+      'test.ts': 'const user = find(userId, id)',
+    })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'id',
+      lineHint: 1,
+    })
+
+    expect(position).toStrictEqual({ line: 0, character: 26 })
+  })
+
+  it('should count orderHint over whole-identifier matches', async () => {
+    const fs = createMockFileAccess({
+      'test.ts': 'map(id => ids.get(id) ?? userId)',
+    })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'id',
+      lineHint: 1,
+      orderHint: 1,
+    })
+
+    expect(position).toStrictEqual({ line: 0, character: 18 })
+  })
+
+  it('should fall back to substring matches when there is no whole identifier', async () => {
+    const fs = createMockFileAccess({ 'test.ts': 'save(userId, orderId)' })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'Id',
+      lineHint: 1,
+      orderHint: 1,
+    })
+
+    expect(position).toStrictEqual({ line: 0, character: 18 })
+  })
+
+  it('should treat $ as part of identifiers by default', async () => {
+    const fs = createMockFileAccess({ 'test.ts': 'const el = $el ?? el' })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'el',
+      lineHint: 1,
+      orderHint: 1,
+    })
+
+    expect(position).toStrictEqual({ line: 0, character: 18 })
+  })
+
+  it('should not require boundaries next to non-identifier characters of the symbol', async () => {
+    const fs = createMockFileAccess({ 'test.php': 'echo $this->value;' })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('test.php', {
+      symbolName: '->value',
+      lineHint: 1,
+    })
+
+    expect(position).toStrictEqual({ line: 0, character: 10 })
+  })
+
+  it('should use built-in identifier characters for CSS', async () => {
+    const fs = createMockFileAccess({
+      'styles.css': '.btn-primary, .btn { color: red }',
+    })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('styles.css', {
+      symbolName: 'btn',
+      lineHint: 1,
+    })
+
+    expect(position).toStrictEqual({ line: 0, character: 15 })
+  })
+
+  it('should use configured identifier characters by file extension', async () => {
+    const fs = createMockFileAccess({
+      'main.nim': 'let x = foo-bar(foo)',
+      'main.ts': 'let x = foo-bar(foo)',
+    })
+    const resolver = new SymbolResolver(fs, {
+      identifierCharacters: { nim: /[\w-]/ },
+    })
+
+    const nim = await resolver.resolvePosition('main.nim', {
+      symbolName: 'foo',
+      lineHint: 1,
+    })
+    const ts = await resolver.resolvePosition('main.ts', {
+      symbolName: 'foo',
+      lineHint: 1,
+    })
+
+    expect(nim).toStrictEqual({ line: 0, character: 16 })
+    expect(ts).toStrictEqual({ line: 0, character: 8 })
+  })
+
+  it('should prefer a whole identifier on a nearby line over a substring on the hinted line', async () => {
+    const fs = createMockFileAccess({
+      'test.ts': 'const userId = 1\nconst id = 2',
+    })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'id',
+      lineHint: 1,
+    })
+
+    expect(position).toStrictEqual({ line: 1, character: 6 })
+  })
+
+  it('should prefer lines with whole-identifier matches as candidates', async () => {
+    const fs = createMockFileAccess({
+      'test.ts':
+        'const userId = 1\n\n\n\n\n\nconst id = 2\nreturn [userId, id]',
+    })
+    const resolver = new SymbolResolver(fs)
+
+    const error = await resolver
+      .resolvePosition('test.ts', { symbolName: 'id', lineHint: 4 })
+      .then(
+        () => undefined,
+        (e: unknown) => e,
+      )
+
+    expect(error).toBeInstanceOf(SymbolResolutionError)
+    expect(
+      (error as SymbolResolutionError).candidates.map((c) => c.line),
+    ).toStrictEqual([7, 8])
+  })
+})
+
+describe('resolution strategies', () => {
+  const fileContent = `function load(id) {
+  const user = fetch(id)
+  return user
+}
+function save(item) {
+  log(item)
+  store(user)
+}`
+
+  function func(name: string, line: number, endLine: number): DocumentSymbol {
+    return {
+      name,
+      kind: 'function',
+      range: {
+        start: { line, character: 0 },
+        end: { line: endLine, character: 1 },
+      },
+      selectionRange: {
+        start: { line, character: 9 },
+        end: { line, character: 9 + name.length },
+      },
+    }
+  }
+
+  const outline: OutlineProvider = {
+    provideDocumentSymbols: vi.fn(async () => [
+      func('load', 0, 3),
+      func('save', 4, 7),
+    ]),
+  }
+
+  it('should resolve to the nearest occurrence by default', async () => {
+    const resolver = new SymbolResolver(
+      createMockFileAccess({ 'test.ts': fileContent }),
+      undefined,
+      outline,
+    )
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'user',
+      lineHint: 5,
+    })
+
+    expect(position).toStrictEqual({ line: 2, character: 9 })
+  })
+
+  it('should prefer occurrences within the enclosing symbol when outline-scoped', async () => {
+    const resolver = new SymbolResolver(
+      createMockFileAccess({ 'test.ts': fileContent }),
+      { resolutionStrategy: 'outline-scoped' },
+      outline,
+    )
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'user',
+      lineHint: 5,
+    })
+
+    expect(position).toStrictEqual({ line: 6, character: 8 })
+  })
+
+  it('should fall back to the nearest occurrence outside the enclosing symbol', async () => {
+    const resolver = new SymbolResolver(
+      createMockFileAccess({ 'test.ts': fileContent }),
+      { resolutionStrategy: 'outline-scoped', lineSearchRadius: 3 },
+      outline,
+    )
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'return',
+      lineHint: 6,
+    })
+
+    expect(position).toStrictEqual({ line: 2, character: 2 })
+  })
+
+  it('should behave as nearest when outline-scoped without an outline', async () => {
+    const resolver = new SymbolResolver(
+      createMockFileAccess({ 'test.ts': fileContent }),
+      { resolutionStrategy: 'outline-scoped' },
+    )
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'user',
+      lineHint: 5,
+    })
+
+    expect(position).toStrictEqual({ line: 2, character: 9 })
+  })
+
+  it('should only search the hinted line when strict', async () => {
+    const resolver = new SymbolResolver(
+      createMockFileAccess({ 'test.ts': fileContent }),
+      { resolutionStrategy: 'strict' },
+    )
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'user',
+      lineHint: 3,
+    })
+
+    expect(position).toStrictEqual({ line: 2, character: 9 })
+    await expect(
+      resolver.resolvePosition('test.ts', { symbolName: 'user', lineHint: 5 }),
+    ).rejects.toThrow(
+      "Could not find symbol 'user' at or near line 5. Please verify the file content and try again. Searched line 5 only. It occurs at line(s) 3, 7, 2.",
+    )
+  })
+})
+
+describe('position encoding', () => {
+  // The emoji is 2 UTF-16 code units, 4 UTF-8 bytes and 1 code point
+  const fileContent = 'const label = "😀 done"; render(label)\nlog("😀", label)'
+
+  it('should count UTF-16 code units by default', async () => {
+    const fs = createMockFileAccess({ 'test.ts': fileContent })
+    const resolver = new SymbolResolver(fs)
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'render',
+      lineHint: 1,
+    })
+    const range = await resolver.findExactText('test.ts', '"😀", label')
+
+    expect(position).toStrictEqual({ line: 0, character: 25 })
+    expect(range).toStrictEqual({
+      start: { line: 1, character: 4 },
+      end: { line: 1, character: 15 },
+    })
+  })
+
+  it('should count UTF-8 bytes', async () => {
+    const fs = createMockFileAccess({ 'test.ts': fileContent })
+    const resolver = new SymbolResolver(fs, { positionEncoding: 'utf-8' })
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'render',
+      lineHint: 1,
+    })
+    const range = await resolver.findExactText('test.ts', '"😀", label')
+
+    expect(position).toStrictEqual({ line: 0, character: 27 })
+    expect(range).toStrictEqual({
+      start: { line: 1, character: 4 },
+      end: { line: 1, character: 17 },
+    })
+  })
+
+  it('should count code points', async () => {
+    const fs = createMockFileAccess({ 'test.ts': fileContent })
+    const resolver = new SymbolResolver(fs, { positionEncoding: 'utf-32' })
+
+    const position = await resolver.resolvePosition('test.ts', {
+      symbolName: 'render',
+      lineHint: 1,
+    })
+    const range = await resolver.findExactText('test.ts', '"😀", label')
+
+    expect(position).toStrictEqual({ line: 0, character: 24 })
+    expect(range).toStrictEqual({
+      start: { line: 1, character: 4 },
+      end: { line: 1, character: 14 },
+    })
+  })
+
+  it('should encode whitespace-tolerant matches', async () => {
+    const fs = createMockFileAccess({ 'test.ts': fileContent })
+    const resolver = new SymbolResolver(fs, {
+      ignoreWhitespace: true,
+      positionEncoding: 'utf-8',
+    })
+
+    const range = await resolver.findExactText('test.ts', 'render(label)  ')
+
+    expect(range).toStrictEqual({
+      start: { line: 0, character: 27 },
+      end: { line: 0, character: 40 },
+    })
+  })
 })
 
 describe('SymbolResolutionError', () => {
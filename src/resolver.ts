@@ -5,14 +5,34 @@
  * instructions into precise coordinates.
  */
 
+import type { OutlineProvider } from './capabilities.js'
 import type { FileAccessProvider } from './interfaces.js'
+import {
+  fromEncodedCharacter,
+  offsetToPosition,
+  toEncodedCharacter,
+} from './positions.js'
 import type {
   DiskRange,
+  DocumentSymbol,
   ExactPosition,
   FuzzyPosition,
+  PositionEncoding,
+  SymbolCandidate,
+  TextEdit,
   UnifiedUri,
 } from './types.js'
 
+/**
+ * How a symbol is located around the lineHint.
+ * - 'nearest': the occurrence closest to the lineHint within
+ *   lineSearchRadius lines (lines above win ties)
+ * - 'outline-scoped': occurrences within the innermost outline symbol
+ *   enclosing the lineHint first, then as 'nearest'
+ * - 'strict': the lineHint line only
+ */
+export type ResolutionStrategy = 'nearest' | 'outline-scoped' | 'strict'
+
 /**
  * Configuration options for the SymbolResolver.
  */
@@ -22,6 +42,63 @@ export interface ResolverConfig {
    * is not found at the exact line. Defaults to 2.
    */
   lineSearchRadius?: number
+
+  /**
+   * How to trade precision for recall when locating a symbol near the
+   * lineHint. 'outline-scoped' requires an OutlineProvider and behaves as
+   * 'nearest' without one. Defaults to 'nearest'.
+   */
+  resolutionStrategy?: ResolutionStrategy
+
+  /**
+   * Whether edit tools match search text ignoring indentation, trailing
+   * whitespace, line endings and tab/space differences when there is no
+   * exact match. The replacement text is then re-indented to match the
+   * file. Can be overridden per call. Defaults to false.
+   */
+  ignoreWhitespace?: boolean
+
+  /**
+   * How the character of returned positions is counted. Defaults to
+   * 'utf-16', the LSP default.
+   */
+  positionEncoding?: PositionEncoding
+
+  /**
+   * Characters that may appear in an identifier, by file extension (e.g.,
+   * `{ css: /[\w-]/ }`). Each pattern is tested against a single character
+   * and must not use the global or sticky flags. Symbols are matched as
+   * whole identifiers, falling back to substrings only when a line has no
+   * whole-identifier match. Extensions not listed here or built in (CSS and
+   * Lisp dialects) use Unicode letters, digits, '_' and '$'.
+   */
+  identifierCharacters?: Record<string, RegExp>
+}
+
+/**
+ * Identifier characters for languages without an entry below.
+ */
+const DEFAULT_IDENTIFIER_CHARACTERS = /[\p{L}\p{N}_$]/u
+
+const CSS_IDENTIFIER_CHARACTERS = /[\p{L}\p{N}_-]/u
+const LISP_IDENTIFIER_CHARACTERS = /[\p{L}\p{N}_\-?!*+<>=/]/u
+
+/**
+ * Built-in identifier characters by file extension.
+ */
+const LANGUAGE_IDENTIFIER_CHARACTERS: Record<string, RegExp> = {
+  css: CSS_IDENTIFIER_CHARACTERS,
+  scss: CSS_IDENTIFIER_CHARACTERS,
+  sass: CSS_IDENTIFIER_CHARACTERS,
+  less: CSS_IDENTIFIER_CHARACTERS,
+  clj: LISP_IDENTIFIER_CHARACTERS,
+  cljs: LISP_IDENTIFIER_CHARACTERS,
+  cljc: LISP_IDENTIFIER_CHARACTERS,
+  edn: LISP_IDENTIFIER_CHARACTERS,
+  el: LISP_IDENTIFIER_CHARACTERS,
+  lisp: LISP_IDENTIFIER_CHARACTERS,
+  scm: LISP_IDENTIFIER_CHARACTERS,
+  rkt: LISP_IDENTIFIER_CHARACTERS,
 }
 
 /**
@@ -30,16 +107,37 @@ export interface ResolverConfig {
 export class SymbolResolutionError extends Error {
   constructor(
     public readonly symbolName: string,
-    public readonly lineHint: number,
+    public readonly lineHint: number | undefined,
     public readonly reason: string,
+    /** Lines elsewhere in the file where the symbol occurs, nearest first */
+    public readonly candidates: SymbolCandidate[] = [],
   ) {
-    super(
-      `Could not find symbol '${symbolName}' at or near line ${lineHint}. ${reason}`,
-    )
+    const location =
+      lineHint !== undefined ? ` at or near line ${lineHint}` : ''
+    const found =
+      candidates.length > 0
+        ? ` It occurs at line(s) ${candidates.map((c) => c.line).join(', ')}.`
+        : ''
+    super(`Could not find symbol '${symbolName}'${location}. ${reason}${found}`)
     this.name = 'SymbolResolutionError'
   }
 }
 
+/**
+ * Error thrown when search text, e.g. for an edit, is missing or not unique.
+ */
+export class TextSearchError extends Error {
+  constructor(
+    public readonly reason: 'NotFound' | 'Ambiguous',
+    message: string,
+    public readonly matchCount: number,
+    public readonly candidateLines: number[] = [],
+  ) {
+    super(message)
+    this.name = 'TextSearchError'
+  }
+}
+
 /**
  * The SymbolResolver translates fuzzy positions (as provided by an LLM)
  * into exact positions that can be used by the IDE.
@@ -51,19 +149,40 @@ export class SymbolResolutionError extends Error {
  * 4. Search for symbolName in that line.
  *    - If orderHint is 0, find first occurrence.
  *    - If orderHint is N, find Nth occurrence.
- * 5. Robustness Fallback:
+ * 5. Robustness Fallback (depending on the resolution strategy):
  *    - If the line is empty or symbol not found at lineHint,
- *      scan +/- lineSearchRadius lines to handle minor line shifts.
- * 6. Return ExactPosition (line, character start index).
+ *      scan +/- lineSearchRadius lines to handle minor line shifts,
+ *      nearest first.
+ *    - With 'outline-scoped', first scan the enclosing outline symbol.
+ *    - With 'strict', do not scan other lines.
+ * 6. Whole-identifier matches on any searched line win over substrings of
+ *    longer identifiers (e.g. "id" in "userId"), which are only used if
+ *    there are none.
+ * 7. Return ExactPosition (line, character start index).
+ *
+ * If a symbolPath is given, the enclosing symbol is first located through
+ * the document outline, which makes the lineHint optional.
  */
 export class SymbolResolver {
   private readonly lineSearchRadius: number
+  private readonly resolutionStrategy: ResolutionStrategy
+  private readonly ignoreWhitespace: boolean
+  private readonly positionEncoding: PositionEncoding
+  private readonly identifierCharacters: Record<string, RegExp>
 
   constructor(
     private readonly fs: FileAccessProvider,
     config?: ResolverConfig,
+    private readonly outline?: OutlineProvider,
   ) {
     this.lineSearchRadius = config?.lineSearchRadius ?? 2
+    this.resolutionStrategy = config?.resolutionStrategy ?? 'nearest'
+    this.ignoreWhitespace = config?.ignoreWhitespace ?? false
+    this.positionEncoding = config?.positionEncoding ?? 'utf-16'
+    this.identifierCharacters = {
+      ...LANGUAGE_IDENTIFIER_CHARACTERS,
+      ...config?.identifierCharacters,
+    }
   }
 
   /**
@@ -78,95 +197,251 @@ export class SymbolResolver {
     uri: UnifiedUri,
     fuzzy: FuzzyPosition,
   ): Promise<ExactPosition> {
-    const content = await this.fs.readFile(uri)
-    const lines = content.split(/\r?\n/)
+    const lines = await this.readLines(uri)
+    const identifier = this.identifierPattern(uri)
 
-    // Convert 1-based lineHint to 0-based index
-    const targetLine = fuzzy.lineHint - 1
-    const orderHint = fuzzy.orderHint ?? 0
+    if (fuzzy.symbolPath !== undefined) {
+      return this.resolveInSymbolPath(
+        uri,
+        lines,
+        fuzzy,
+        fuzzy.symbolPath,
+        identifier,
+      )
+    }
 
-    // First, try to find the symbol at the exact line
-    const exactResult = this.findSymbolInLine(
-      lines[targetLine],
-      fuzzy.symbolName,
-      orderHint,
-    )
-    if (exactResult !== null) {
-      return { line: targetLine, character: exactResult }
+    const lineHint = fuzzy.lineHint
+    if (lineHint === undefined) {
+      throw new SymbolResolutionError(
+        fuzzy.symbolName,
+        undefined,
+        'Please provide a line hint or a symbol path.',
+        findCandidates(lines, fuzzy.symbolName, undefined, identifier),
+      )
     }
 
-    // Fallback: scan nearby lines
-    for (let offset = 1; offset <= this.lineSearchRadius; offset++) {
-      // Check line above
-      const lineAbove = targetLine - offset
-      if (lineAbove >= 0) {
-        const resultAbove = this.findSymbolInLine(
-          lines[lineAbove],
+    // Convert 1-based lineHint to 0-based index
+    const targetLine = lineHint - 1
+    const orderHint = fuzzy.orderHint ?? 0
+
+    if (this.resolutionStrategy === 'outline-scoped' && this.outline) {
+      const scope = findEnclosingSymbol(
+        await this.outline.provideDocumentSymbols(uri),
+        targetLine,
+      )
+      if (scope) {
+        const position = this.findSymbolInLines(
+          lines,
+          nearestFirst(
+            scope.range.start.line,
+            Math.min(scope.range.end.line, lines.length - 1),
+            targetLine,
+          ),
           fuzzy.symbolName,
           orderHint,
+          identifier,
         )
-        if (resultAbove !== null) {
-          return { line: lineAbove, character: resultAbove }
+        if (position !== null) {
+          return position
         }
       }
+    }
 
-      // Check line below
-      const lineBelow = targetLine + offset
-      if (lineBelow < lines.length) {
-        const resultBelow = this.findSymbolInLine(
-          lines[lineBelow],
-          fuzzy.symbolName,
-          orderHint,
+    // Try the exact line first, then scan nearby lines to handle minor
+    // line shifts
+    const radius =
+      this.resolutionStrategy === 'strict' ? 0 : this.lineSearchRadius
+    const first = Math.max(0, targetLine - radius)
+    const last = Math.min(lines.length - 1, targetLine + radius)
+    const position = this.findSymbolInLines(
+      lines,
+      nearestFirst(first, last, targetLine),
+      fuzzy.symbolName,
+      orderHint,
+      identifier,
+    )
+    if (position !== null) {
+      return position
+    }
+
+    // Symbol not found anywhere in the search range; offer the rest of the
+    // file. A hint past the end of the file leaves no range to report.
+    const searched =
+      first > last
+        ? `Line ${lineHint} is past the end of the file (${lines.length} line(s))`
+        : first === last
+          ? `Searched line ${first + 1} only`
+          : `Searched lines ${first + 1} to ${last + 1}`
+    throw new SymbolResolutionError(
+      fuzzy.symbolName,
+      lineHint,
+      `Please verify the file content and try again. ${searched}.`,
+      findCandidates(lines, fuzzy.symbolName, lineHint, identifier),
+    )
+  }
+
+  /**
+   * Resolves a fuzzy position to the position right after the symbol, e.g.
+   * where the cursor would be after typing it.
+   *
+   * @param uri - The URI of the file
+   * @param fuzzy - The fuzzy position provided by the LLM
+   * @param afterText - Optional text following the symbol on the same line;
+   * the position is moved to the end of its first occurrence
+   * @returns The exact position after the symbol (or afterText)
+   * @throws SymbolResolutionError if the symbol cannot be found
+   * @throws TextSearchError if afterText does not follow the symbol
+   */
+  async resolvePositionAfter(
+    uri: UnifiedUri,
+    fuzzy: FuzzyPosition,
+    afterText?: string,
+  ): Promise<ExactPosition> {
+    const start = await this.resolvePosition(uri, fuzzy)
+    const lines = await this.readLines(uri)
+    const lineText = lines[start.line] ?? ''
+    let index =
+      fromEncodedCharacter(lineText, start.character, this.positionEncoding) +
+      fuzzy.symbolName.length
+
+    if (afterText !== undefined) {
+      const found = lineText.indexOf(afterText, index)
+      if (found === -1) {
+        throw new TextSearchError(
+          'NotFound',
+          `Text not found after '${fuzzy.symbolName}' on line ${start.line + 1}: "${truncate(afterText)}"`,
+          0,
         )
-        if (resultBelow !== null) {
-          return { line: lineBelow, character: resultBelow }
-        }
       }
+      index = found + afterText.length
+    }
+
+    return this.toPosition(lines, start.line, index)
+  }
+
+  /**
+   * Resolves a fuzzy position anchored by a symbol path through the
+   * document outline.
+   */
+  private async resolveInSymbolPath(
+    uri: UnifiedUri,
+    lines: string[],
+    fuzzy: FuzzyPosition,
+    symbolPath: string,
+    identifier: RegExp,
+  ): Promise<ExactPosition> {
+    const { symbolName, lineHint } = fuzzy
+    const orderHint = fuzzy.orderHint ?? 0
+
+    if (!this.outline) {
+      throw new SymbolResolutionError(
+        symbolName,
+        lineHint,
+        'Symbol paths are not supported without a document outline; use a line hint instead.',
+      )
+    }
+
+    const symbols = await this.outline.provideDocumentSymbols(uri)
+    const found = findSymbolByPath(symbols, symbolPath.split('.'), lineHint)
+    if (typeof found === 'string') {
+      throw new SymbolResolutionError(
+        symbolName,
+        lineHint,
+        found,
+        findCandidates(lines, symbolName, lineHint, identifier),
+      )
+    }
+
+    // The symbol itself, e.g. "findById" in "UserService.findById"
+    const { start } = found.selectionRange
+    const selectionLine = lines[start.line] ?? ''
+    const selectionIndex = fromEncodedCharacter(
+      selectionLine,
+      start.character,
+      this.positionEncoding,
+    )
+    if (
+      orderHint === 0 &&
+      selectionLine.startsWith(symbolName, selectionIndex)
+    ) {
+      return { line: start.line, character: start.character }
+    }
+
+    // Otherwise search within the symbol, nearest to the line hint first
+    const first = found.range.start.line
+    const last = Math.min(found.range.end.line, lines.length - 1)
+    const position = this.findSymbolInLines(
+      lines,
+      nearestFirst(first, last, lineHint !== undefined ? lineHint - 1 : first),
+      symbolName,
+      orderHint,
+      identifier,
+    )
+    if (position !== null) {
+      return position
     }
 
-    // Symbol not found anywhere in the search range
     throw new SymbolResolutionError(
-      fuzzy.symbolName,
-      fuzzy.lineHint,
-      `Please verify the file content and try again. Searched lines ${Math.max(1, fuzzy.lineHint - this.lineSearchRadius)} to ${Math.min(lines.length, fuzzy.lineHint + this.lineSearchRadius)}.`,
+      symbolName,
+      lineHint,
+      `Searched '${symbolPath}' (lines ${first + 1} to ${last + 1}).`,
+      findCandidates(lines, symbolName, lineHint, identifier),
     )
   }
 
   /**
-   * Finds the Nth occurrence of a symbol in a line.
+   * Searches lines in order for a symbol. Whole-identifier matches on any of
+   * the lines win over substrings of longer identifiers, so that "id" finds
+   * "id" on a nearby line rather than "userId" on the hinted one.
    *
-   * @param line - The line to search in (may be undefined if out of bounds)
+   * @param lines - The file lines
+   * @param searchOrder - Indexes of the lines to search, most likely first
    * @param symbolName - The symbol to find
-   * @param orderHint - Which occurrence to find (0-based)
-   * @returns The character offset of the symbol, or null if not found
+   * @param orderHint - Which occurrence to find (0-based), counted over the
+   * matches of all searched lines in search order
+   * @param identifier - Pattern matching a single identifier character
+   * @returns The position of the symbol, or null if not found
    */
-  private findSymbolInLine(
-    line: string | undefined,
+  private findSymbolInLines(
+    lines: string[],
+    searchOrder: number[],
     symbolName: string,
     orderHint: number,
-  ): number | null {
-    if (line === undefined || line.length === 0) {
-      return null
+    identifier: RegExp,
+  ): ExactPosition | null {
+    const whole: [line: number, character: number][] = []
+    const all: [line: number, character: number][] = []
+    for (const line of searchOrder) {
+      const text = lines[line]
+      if (!text) continue
+      const occurrences = findOccurrences(text, symbolName, identifier)
+      for (const character of occurrences.whole) whole.push([line, character])
+      for (const character of occurrences.all) all.push([line, character])
     }
 
-    let currentIndex = 0
-    let occurrenceCount = 0
-
-    while (currentIndex < line.length) {
-      const foundIndex = line.indexOf(symbolName, currentIndex)
-      if (foundIndex === -1) {
-        break
-      }
-
-      if (occurrenceCount === orderHint) {
-        return foundIndex
-      }
+    const match = whole.length > 0 ? whole[orderHint] : all[orderHint]
+    return match ? this.toPosition(lines, match[0], match[1]) : null
+  }
 
-      occurrenceCount++
-      currentIndex = foundIndex + 1
+  /**
+   * Reads a file split into lines, sharing the split when the file access
+   * provides one.
+   */
+  private async readLines(uri: UnifiedUri): Promise<string[]> {
+    if (this.fs.readLines) {
+      return this.fs.readLines(uri)
     }
+    return (await this.fs.readFile(uri)).split(/\r?\n/)
+  }
 
-    return null
+  /**
+   * Returns the identifier character pattern for a file's language.
+   */
+  private identifierPattern(uri: UnifiedUri): RegExp {
+    const name = uri.slice(uri.lastIndexOf('/') + 1)
+    const dot = name.lastIndexOf('.')
+    const extension = dot === -1 ? '' : name.slice(dot + 1).toLowerCase()
+    return this.identifierCharacters[extension] ?? DEFAULT_IDENTIFIER_CHARACTERS
   }
 
   /**
@@ -175,11 +450,77 @@ export class SymbolResolver {
    *
    * @param uri - The URI of the file
    * @param searchText - The exact text to find
+   * @param options - Overrides for the resolver's matching configuration
    * @returns The range of the found text
-   * @throws Error if the text is not found or appears multiple times
+   * @throws TextSearchError if the text is not found or appears multiple times
+   */
+  async findExactText(
+    uri: UnifiedUri,
+    searchText: string,
+    options?: TextSearchOptions,
+  ): Promise<DiskRange> {
+    const content = await this.fs.readFile(uri)
+    return this.matchText(content, searchText, options).range
+  }
+
+  /**
+   * Finds the text to replace in a file and builds the edit that replaces it.
+   * With whitespace-tolerant matching, the replacement text is re-indented
+   * and uses the file's line endings.
+   *
+   * @param uri - The URI of the file
+   * @param searchText - The text to replace
+   * @param replaceText - The new text
+   * @param options - Overrides for the resolver's matching configuration
+   * @returns The edit to apply
+   * @throws TextSearchError if the text is not found or appears multiple times
    */
-  async findExactText(uri: UnifiedUri, searchText: string): Promise<DiskRange> {
+  async resolveTextEdit(
+    uri: UnifiedUri,
+    searchText: string,
+    replaceText: string,
+    options?: TextSearchOptions,
+  ): Promise<TextEdit> {
     const content = await this.fs.readFile(uri)
+    return this.resolveTextEditInContent(
+      content,
+      searchText,
+      replaceText,
+      options,
+    )
+  }
+
+  /**
+   * Like resolveTextEdit, but matches against content the caller has
+   * already read, so that the edit is built from that exact snapshot.
+   *
+   * @param content - The file content
+   * @param searchText - The text to replace
+   * @param replaceText - The new text
+   * @param options - Overrides for the resolver's matching configuration
+   * @returns The edit to apply
+   * @throws TextSearchError if the text is not found or appears multiple times
+   */
+  resolveTextEditInContent(
+    content: string,
+    searchText: string,
+    replaceText: string,
+    options?: TextSearchOptions,
+  ): TextEdit {
+    const match = this.matchText(content, searchText, options)
+    return { range: match.range, newText: match.adaptReplacement(replaceText) }
+  }
+
+  /**
+   * Finds the unique location of searchText in content.
+   * Exact matches take precedence over whitespace-tolerant ones.
+   */
+  private matchText(
+    content: string,
+    searchText: string,
+    options?: TextSearchOptions,
+  ): TextMatch {
+    const ignoreWhitespace = options?.ignoreWhitespace ?? this.ignoreWhitespace
 
     // Find all occurrences
     const occurrences: number[] = []
@@ -194,50 +535,449 @@ export class SymbolResolver {
     }
 
     if (occurrences.length === 0) {
-      throw new Error(
-        `Text not found in file: "${searchText.slice(0, 50)}${searchText.length > 50 ? '...' : ''}"`,
+      if (ignoreWhitespace) {
+        return this.matchIgnoringWhitespace(content, searchText)
+      }
+      throw new TextSearchError(
+        'NotFound',
+        `Text not found in file: "${truncate(searchText)}"`,
+        0,
       )
     }
 
     if (occurrences.length > 1) {
-      throw new Error(
-        `Text appears ${occurrences.length} times in file. Please provide more context to uniquely identify the location.`,
+      // 1-based line numbers of every occurrence
+      const candidateLines = occurrences.map(
+        (offset) => offsetToPosition(content, offset).line + 1,
       )
+      throw ambiguousTextError(candidateLines)
     }
 
     // Convert character offset to line/character position
     const startOffset = occurrences[0] as number
     const endOffset = startOffset + searchText.length
 
-    const start = this.offsetToPosition(content, startOffset)
-    const end = this.offsetToPosition(content, endOffset)
+    const start = offsetToPosition(content, startOffset, this.positionEncoding)
+    const end = offsetToPosition(content, endOffset, this.positionEncoding)
 
-    return { start, end }
+    return { range: { start, end }, adaptReplacement: (text) => text }
   }
 
   /**
-   * Converts a character offset to a line/character position.
+   * Matches searchText line by line, ignoring indentation, trailing
+   * whitespace, line endings and tab/space differences at line boundaries.
+   * The first and last lines of searchText may be partial lines.
    */
-  private offsetToPosition(content: string, offset: number): ExactPosition {
-    let line = 0
-    let character = 0
-    let currentOffset = 0
+  private matchIgnoringWhitespace(
+    content: string,
+    searchText: string,
+  ): TextMatch {
+    const lines = content.split(/\r?\n/)
+    const searchLines = searchText.split(/\r?\n/)
+    const eol = content.includes('\r\n') ? '\r\n' : '\n'
 
-    for (const char of content) {
-      if (currentOffset === offset) {
-        break
+    const matches: LineMatch[] = []
+    if (searchText.trim().length > 0) {
+      for (let i = 0; i + searchLines.length <= lines.length; i++) {
+        matches.push(...matchLinesAt(lines, searchLines, i))
       }
+    }
+
+    if (matches.length === 0) {
+      throw new TextSearchError(
+        'NotFound',
+        `Text not found in file, even ignoring whitespace: "${truncate(searchText)}"`,
+        0,
+      )
+    }
+
+    if (matches.length > 1) {
+      throw ambiguousTextError(
+        matches.map((match) => match.range.start.line + 1),
+      )
+    }
+
+    const { range, indentedLines } = matches[0] as LineMatch
+    const { start, end } = range
 
-      if (char === '\n') {
-        line++
-        character = 0
-      } else {
-        character++
+    // Map the indentation the model used to the file's actual indentation
+    const indents = new Map<string, string>()
+    for (const j of indentedLines) {
+      const searchIndent = leadingWhitespace(searchLines[j] as string)
+      if (!indents.has(searchIndent)) {
+        indents.set(
+          searchIndent,
+          leadingWhitespace(lines[range.start.line + j] as string),
+        )
       }
+    }
+
+    return {
+      range: {
+        start: this.toPosition(lines, start.line, start.character),
+        end: this.toPosition(lines, end.line, end.character),
+      },
+      adaptReplacement: (text) =>
+        text
+          .split(/\r?\n/)
+          .map((line, j) =>
+            // A first line that continues a file line keeps its indentation
+            j === 0 && !indentedLines.includes(0)
+              ? line
+              : reindentLine(line, indents),
+          )
+          .join(eol),
+    }
+  }
+
+  /**
+   * Builds a position from a UTF-16 index within a line, counting the
+   * character in the configured position encoding.
+   */
+  private toPosition(
+    lines: string[],
+    line: number,
+    index: number,
+  ): ExactPosition {
+    return {
+      line,
+      character: toEncodedCharacter(
+        lines[line] ?? '',
+        index,
+        this.positionEncoding,
+      ),
+    }
+  }
+}
+
+/**
+ * Options for finding text to replace.
+ */
+export interface TextSearchOptions {
+  /**
+   * Match ignoring indentation, trailing whitespace and line endings.
+   * Defaults to the resolver's ignoreWhitespace setting.
+   */
+  ignoreWhitespace?: boolean
+}
+
+/**
+ * A located piece of text and how to adapt its replacement to the file.
+ */
+interface TextMatch {
+  range: DiskRange
+  adaptReplacement: (replaceText: string) => string
+}
+
+/**
+ * Maximum number of candidates reported when a symbol cannot be resolved.
+ */
+const MAX_CANDIDATES = 10
+
+/**
+ * Finds the occurrences of a symbol in a line.
+ *
+ * @returns The start indexes of all occurrences, and of those that are not
+ * part of a longer identifier
+ */
+function findOccurrences(
+  line: string,
+  symbolName: string,
+  identifier: RegExp,
+): { whole: number[]; all: number[] } {
+  const whole: number[] = []
+  const all: number[] = []
+  // An empty symbol matches at the start of the line, as with indexOf
+  if (symbolName.length === 0) return { whole, all: [0] }
 
-      currentOffset++
+  // Boundaries only matter next to identifier characters of the symbol
+  // itself, e.g. "->value" may directly follow "this"
+  const symbolChars = [...symbolName]
+  const checkStart = identifier.test(symbolChars[0] as string)
+  const checkEnd = identifier.test(
+    symbolChars[symbolChars.length - 1] as string,
+  )
+
+  let index = line.indexOf(symbolName)
+  while (index !== -1) {
+    all.push(index)
+    const end = index + symbolName.length
+    const before = [...line.slice(Math.max(0, index - 2), index)].at(-1)
+    const after = line.codePointAt(end)
+    if (
+      !(checkStart && before !== undefined && identifier.test(before)) &&
+      !(
+        checkEnd &&
+        after !== undefined &&
+        identifier.test(String.fromCodePoint(after))
+      )
+    ) {
+      whole.push(index)
     }
+    index = line.indexOf(symbolName, index + 1)
+  }
+  return { whole, all }
+}
+
+/**
+ * Scans the whole file for lines containing a symbol. Lines where it is a
+ * whole identifier are preferred; lines where it is only part of a longer
+ * identifier are offered only if there are no others.
+ *
+ * @returns Candidate lines ranked by distance from the line hint (lines
+ * above win ties), or in file order without a hint
+ */
+function findCandidates(
+  lines: string[],
+  symbolName: string,
+  lineHint: number | undefined,
+  identifier: RegExp,
+): SymbolCandidate[] {
+  if (symbolName.length === 0) return []
 
-    return { line, character }
+  const wholeLines: number[] = []
+  const substringLines: number[] = []
+  for (const [index, text] of lines.entries()) {
+    const { whole, all } = findOccurrences(text, symbolName, identifier)
+    if (whole.length > 0) wholeLines.push(index)
+    else if (all.length > 0) substringLines.push(index)
   }
+
+  const candidates: SymbolCandidate[] = []
+  for (const index of wholeLines.length > 0 ? wholeLines : substringLines) {
+    const text = lines[index] as string
+    candidates.push({
+      line: index + 1,
+      // Keep minified or generated lines readable
+      text: text.trim().slice(0, 200),
+      ...(lineHint !== undefined && {
+        distance: Math.abs(index + 1 - lineHint),
+      }),
+    })
+  }
+
+  return candidates
+    .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0) || a.line - b.line)
+    .slice(0, MAX_CANDIDATES)
+}
+
+/**
+ * Orders the line indexes first to last by distance from origin, lines above
+ * winning ties.
+ */
+function nearestFirst(first: number, last: number, origin: number): number[] {
+  return Array.from(
+    { length: Math.max(0, last - first + 1) },
+    (_, i) => first + i,
+  ).sort((a, b) => Math.abs(a - origin) - Math.abs(b - origin) || a - b)
+}
+
+/**
+ * Finds the innermost outline symbol whose range contains a line.
+ */
+function findEnclosingSymbol(
+  symbols: DocumentSymbol[],
+  line: number,
+): DocumentSymbol | undefined {
+  for (const symbol of symbols) {
+    if (symbol.range.start.line <= line && line <= symbol.range.end.line) {
+      return findEnclosingSymbol(symbol.children ?? [], line) ?? symbol
+    }
+  }
+  return undefined
+}
+
+/**
+ * Finds a symbol in the document outline by its path of names.
+ * Overloads and other same-named symbols are disambiguated by the line hint,
+ * preferring the first one otherwise.
+ *
+ * @returns The symbol, or the reason it could not be found
+ */
+function findSymbolByPath(
+  symbols: DocumentSymbol[],
+  path: string[],
+  lineHint: number | undefined,
+): DocumentSymbol | string {
+  let candidates = symbols
+  let matches: DocumentSymbol[] = []
+  for (const [index, segment] of path.entries()) {
+    matches = candidates.filter((symbol) => symbolNameMatches(symbol, segment))
+    if (matches.length === 0) {
+      const parent = path.slice(0, index).join('.')
+      const available = [...new Set(candidates.map((symbol) => symbol.name))]
+      return `${parent ? `'${parent}' has no member` : 'No top-level symbol'} '${segment}'. Available: ${available.slice(0, 20).join(', ') || 'none'}.`
+    }
+    candidates = matches.flatMap((symbol) => symbol.children ?? [])
+  }
+
+  if (lineHint === undefined) {
+    return matches[0] as DocumentSymbol
+  }
+  const distance = (symbol: DocumentSymbol) =>
+    Math.abs(symbol.selectionRange.start.line + 1 - lineHint)
+  return matches.reduce((best, symbol) =>
+    distance(symbol) < distance(best) ? symbol : best,
+  )
+}
+
+/**
+ * Whether an outline symbol has the given name. Some language servers
+ * include the parameter list in method names (e.g., "findById(id)").
+ */
+function symbolNameMatches(symbol: DocumentSymbol, name: string): boolean {
+  return symbol.name === name || symbol.name.startsWith(`${name}(`)
+}
+
+function truncate(text: string): string {
+  return `${text.slice(0, 50)}${text.length > 50 ? '...' : ''}`
+}
+
+function ambiguousTextError(candidateLines: number[]): TextSearchError {
+  return new TextSearchError(
+    'Ambiguous',
+    `Text appears ${candidateLines.length} times in file (lines ${candidateLines.join(', ')}). Please provide more context to uniquely identify the location.`,
+    candidateLines.length,
+    candidateLines,
+  )
+}
+
+function leadingWhitespace(line: string): string {
+  return line.slice(0, line.length - line.trimStart().length)
+}
+
+/**
+ * A whitespace-tolerant match and the search lines that start a file line,
+ * whose indentation can be compared with the file. Characters in the range
+ * are UTF-16 indexes within their line.
+ */
+interface LineMatch {
+  range: DiskRange
+  indentedLines: number[]
+}
+
+/**
+ * Replaces the longest known search indentation that prefixes a line with
+ * the corresponding file indentation.
+ */
+function reindentLine(line: string, indents: Map<string, string>): string {
+  if (line.trim().length === 0) return line
+
+  let best: [string, string] | undefined
+  for (const [searchIndent, fileIndent] of indents) {
+    if (
+      line.startsWith(searchIndent) &&
+      (!best || searchIndent.length > best[0].length)
+    ) {
+      best = [searchIndent, fileIndent]
+    }
+  }
+  return best ? best[1] + line.slice(best[0].length) : line
+}
+
+/**
+ * Matches searchLines against the file lines starting at line index i,
+ * ignoring whitespace at line boundaries.
+ *
+ * @returns The matches found at this line (several for a single search line
+ * that occurs more than once in the file line)
+ */
+function matchLinesAt(
+  lines: string[],
+  searchLines: string[],
+  i: number,
+): LineMatch[] {
+  const first = searchLines[0] as string
+  const firstLine = lines[i] as string
+
+  if (searchLines.length === 1) {
+    const needle = first.trim()
+    if (firstLine.trim() === needle) {
+      return [
+        {
+          range: {
+            start: { line: i, character: 0 },
+            end: { line: i, character: firstLine.trimEnd().length },
+          },
+          indentedLines: [0],
+        },
+      ]
+    }
+
+    const results: LineMatch[] = []
+    let index = firstLine.indexOf(needle)
+    while (index !== -1) {
+      results.push({
+        range: {
+          start: { line: i, character: index },
+          end: { line: i, character: index + needle.length },
+        },
+        indentedLines: [],
+      })
+      index = firstLine.indexOf(needle, index + 1)
+    }
+    return results
+  }
+
+  // The first search line either covers a whole line, is empty (the match
+  // starts at the end of the line) or is the end of a line
+  let startCharacter: number
+  let wholeFirstLine = false
+  const firstNeedle = first.trim()
+  if (firstNeedle.length === 0) {
+    startCharacter = firstLine.length
+  } else if (firstLine.trim() === firstNeedle) {
+    startCharacter = 0
+    wholeFirstLine = true
+  } else if (
+    first === first.trimStart() &&
+    firstLine.trimEnd().endsWith(firstNeedle)
+  ) {
+    startCharacter = firstLine.trimEnd().length - firstNeedle.length
+  } else {
+    return []
+  }
+
+  for (let j = 1; j < searchLines.length - 1; j++) {
+    if (lines[i + j]?.trim() !== searchLines[j]?.trim()) {
+      return []
+    }
+  }
+
+  // The last search line either covers a whole line, is empty (the match
+  // ends at the start of the line) or is the start of a line
+  const lastIndex = i + searchLines.length - 1
+  const last = searchLines[searchLines.length - 1] as string
+  const lastLine = lines[lastIndex] as string
+  const lastNeedle = last.trim()
+  let endCharacter: number
+  if (lastNeedle.length === 0) {
+    endCharacter = 0
+  } else if (lastLine.trim() === lastNeedle) {
+    endCharacter = lastLine.trimEnd().length
+  } else if (
+    last === last.trimEnd() &&
+    lastLine.trimStart().startsWith(lastNeedle)
+  ) {
+    endCharacter = leadingWhitespace(lastLine).length + lastNeedle.length
+  } else {
+    return []
+  }
+
+  const indentedLines: number[] = []
+  for (let j = wholeFirstLine ? 0 : 1; j < searchLines.length; j++) {
+    if (searchLines[j]?.trim()) {
+      indentedLines.push(j)
+    }
+  }
+
+  return [
+    {
+      range: {
+        start: { line: i, character: startCharacter },
+        end: { line: lastIndex, character: endCharacter },
+      },
+      indentedLines,
+    },
+  ]
 }
@@ -4,6 +4,7 @@
  */
 
 import * as z from 'zod/mini'
+import { symbolKinds } from './types.js'
 
 const uri = z.string().check(z.describe('The relative file path'))
 const symbol_name = z
@@ -26,12 +27,42 @@ const order_hint = z
     ),
   )
 
-export const FuzzyPositionSchema = z.object({
+const symbol_path = z.optional(
+  z
+    .string()
+    .check(
+      z.describe(
+        "Dot-separated path of the symbol in the file's outline (e.g. 'UserService.findById'). " +
+          'If symbol_name is not the last segment, it is searched within that symbol. Makes line_hint optional',
+      ),
+    ),
+)
+
+/**
+ * Position fields shared by the tools that target a symbol.
+ * line_hint is optional because a symbol_path can anchor the position instead.
+ */
+const position = {
   uri,
   symbol_name,
-  line_hint,
+  line_hint: z.optional(line_hint),
   order_hint,
-})
+  symbol_path,
+}
+
+export const FuzzyPositionSchema = z.object(position)
+
+/**
+ * Removes symbol_path from a position schema and makes line_hint required,
+ * for IDEs that provide no document outline to resolve symbol paths.
+ * Its output is assignable to the output of the original schema, so tool
+ * handlers can type their parameters with the original schema.
+ */
+export function withoutSymbolPath<T extends z.ZodMiniObject>(
+  schema: T & z.ZodMiniObject<typeof position>,
+) {
+  return z.extend(z.omit(schema, { symbol_path: true }), { line_hint })
+}
 
 export const ApplyEditSchema = z.object({
   uri,
@@ -42,16 +73,241 @@ export const ApplyEditSchema = z.object({
     ),
   replace_text: z.string().check(z.describe('New text to insert')),
   description: z.string().check(z.describe('Rationale for the edit')),
+  expected_version: z.optional(
+    z
+      .string()
+      .check(
+        z.describe(
+          'Content version returned when the file was read; the edit fails if the file has changed since',
+        ),
+      ),
+  ),
+  wait_for_diagnostics: z
+    ._default(z.optional(z.boolean()), false)
+    .check(
+      z.describe(
+        'Wait for the IDE to refresh diagnostics after the edit and report introduced/resolved diagnostics',
+      ),
+    ),
+  ignore_whitespace: z.optional(
+    z
+      .boolean()
+      .check(
+        z.describe(
+          'If search_text has no exact match, match it ignoring indentation, trailing whitespace and line endings, and re-indent replace_text to match the file',
+        ),
+      ),
+  ),
+})
+
+export const ApplyMultiEditSchema = z.object({
+  uri,
+  edits: z
+    .array(
+      z.object({
+        search_text: ApplyEditSchema.shape.search_text,
+        replace_text: ApplyEditSchema.shape.replace_text,
+      }),
+    )
+    .check(
+      z.minLength(1),
+      z.describe(
+        'Ordered hunks to apply. Each search_text is matched against the original file content and hunks must not overlap',
+      ),
+    ),
+  description: ApplyEditSchema.shape.description,
+  expected_version: ApplyEditSchema.shape.expected_version,
+  wait_for_diagnostics: ApplyEditSchema.shape.wait_for_diagnostics,
+  ignore_whitespace: ApplyEditSchema.shape.ignore_whitespace,
+})
+
+const file_operation = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('create'),
+    uri,
+    content: z.optional(
+      z.string().check(z.describe('Initial content of the new file')),
+    ),
+  }),
+  z.object({
+    kind: z.literal('rename'),
+    old_uri: z.string().check(z.describe('The current file path')),
+    new_uri: z.string().check(z.describe('The new file path')),
+  }),
+  z.object({
+    kind: z.literal('delete'),
+    uri,
+  }),
+])
+
+export const ApplyWorkspaceEditSchema = z.object({
+  edits: z._default(
+    z.array(
+      z.object({
+        uri: z
+          .string()
+          .check(
+            z.describe(
+              'The file path (use the current path for files that are renamed)',
+            ),
+          ),
+        search_text: ApplyEditSchema.shape.search_text,
+        replace_text: ApplyEditSchema.shape.replace_text,
+        expected_version: ApplyEditSchema.shape.expected_version,
+      }),
+    ),
+    [],
+  ),
+  file_operations: z._default(
+    z
+      .array(file_operation)
+      .check(
+        z.describe(
+          'File create/rename/delete operations, applied before edits',
+        ),
+      ),
+    [],
+  ),
+  description: ApplyEditSchema.shape.description,
+  ignore_whitespace: ApplyEditSchema.shape.ignore_whitespace,
+})
+
+export const RenameSymbolSchema = z.object({
+  ...position,
+  new_name: z
+    .string()
+    .check(z.minLength(1), z.describe('The new name for the symbol')),
+})
+
+export const UndoEditSchema = z.object({
+  edit_id: z.optional(
+    z
+      .string()
+      .check(
+        z.describe(
+          'ID of the edit to undo (from lsp://edits/history). Defaults to the most recent edit that has not been undone',
+        ),
+      ),
+  ),
 })
 
 export const CallHierarchySchema = z.object({
+  ...position,
   uri: z.string().check(z.describe('The file URI or path')),
-  symbol_name,
-  line_hint,
-  order_hint,
   direction: z
     .enum(['incoming', 'outgoing'])
     .check(z.describe('Direction of the call hierarchy')),
+  max_depth: z.optional(
+    z
+      .number()
+      .check(
+        z.int(),
+        z.positive(),
+        z.maximum(10),
+        z.describe(
+          'Number of levels to walk (1 = direct callers or callees only). When set, the result also contains the calls as a tree',
+        ),
+      ),
+  ),
+})
+
+export const TypeHierarchySchema = z.object({
+  ...position,
+  uri: z.string().check(z.describe('The file URI or path')),
+  direction: z
+    .enum(['supertypes', 'subtypes'])
+    .check(
+      z.describe(
+        'Direction of the type hierarchy: the types it extends or implements (supertypes), or the types extending or implementing it (subtypes)',
+      ),
+    ),
+})
+
+export const GetCompletionsSchema = z.object({
+  ...position,
+  after_text: z.optional(
+    z
+      .string()
+      .check(
+        z.describe(
+          "Text following symbol_name on the same line to complete after (e.g. '.' for 'user.'). Default: complete right after symbol_name",
+        ),
+      ),
+  ),
+  limit: z
+    ._default(
+      z.optional(z.number().check(z.int(), z.positive(), z.maximum(200))),
+      50,
+    )
+    .check(z.describe('Maximum number of completions to return')),
+})
+
+export const ListCodeActionsSchema = z.object({
+  uri,
+  start_line: z
+    .number()
+    .check(
+      z.int(),
+      z.positive(),
+      z.describe('1-based first line of the range to get actions for'),
+    ),
+  end_line: z.optional(
+    z
+      .number()
+      .check(
+        z.int(),
+        z.positive(),
+        z.describe('1-based last line of the range (default: start_line)'),
+      ),
+  ),
+  diagnostic: z.optional(
+    z
+      .string()
+      .check(
+        z.describe(
+          'Message or code of a diagnostic in the range; only fixes for matching diagnostics are listed',
+        ),
+      ),
+  ),
+  kind: z.optional(
+    z
+      .string()
+      .check(
+        z.describe(
+          "Only list actions of this kind or its sub-kinds (e.g. 'quickfix', 'refactor')",
+        ),
+      ),
+  ),
+})
+
+export const FormatDocumentSchema = z.object({
+  uri,
+  start_line: z.optional(
+    z
+      .number()
+      .check(
+        z.int(),
+        z.positive(),
+        z.describe(
+          '1-based first line of the range to format (default: the whole file)',
+        ),
+      ),
+  ),
+  end_line: z.optional(
+    z
+      .number()
+      .check(
+        z.int(),
+        z.positive(),
+        z.describe('1-based last line of the range (default: start_line)'),
+      ),
+  ),
+})
+
+export const ApplyCodeActionSchema = z.object({
+  action_id: z
+    .string()
+    .check(z.describe('ID of the action, as returned by list_code_actions')),
 })
 
 const query = z.string().check(z.describe('The search query'))
@@ -82,3 +338,24 @@ export const GlobalReplaceSchema = z.object({
   regex_mode,
   replace_with: z.string().check(z.describe('The replacement text')),
 })
+
+export const FindWorkspaceSymbolsSchema = z.object({
+  query: z
+    .string()
+    .check(z.describe('The symbol name, or part of it, to search for')),
+  kinds: z.optional(
+    z
+      .array(z.enum(symbolKinds))
+      .check(
+        z.describe(
+          "Only return symbols of these kinds (e.g. ['class', 'interface'])",
+        ),
+      ),
+  ),
+  limit: z
+    ._default(
+      z.optional(z.number().check(z.int(), z.positive(), z.maximum(500))),
+      50,
+    )
+    .check(z.describe('Maximum number of symbols to return')),
+})
@@ -3,23 +3,53 @@ import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { describe, expect, it, vi } from 'vitest'
 import type {
+  CodeActionProvider,
+  CompletionProvider,
   DefinitionProvider,
   DiagnosticsProvider,
+  FormattingProvider,
   GlobalFindMatch,
   GlobalFindOptions,
   GlobalFindProvider,
   HierarchyProvider,
+  HoverProvider,
   IdeCapabilities,
+  ImplementationProvider,
+  InlayHintsProvider,
   OnDiagnosticsChangedCallback,
   OutlineProvider,
   ReferencesProvider,
+  RenameProvider,
+  SemanticTokensProvider,
+  SignatureHelpProvider,
+  TypeDefinitionProvider,
+  TypeHierarchyProvider,
+  WorkspaceSymbolProvider,
 } from './capabilities.js'
+import { applyTextEdits } from './edits.js'
+import { computeContentVersion } from './formatting.js'
 import type {
   FileAccessProvider,
   UserInteractionProvider,
 } from './interfaces.js'
 import { installMcpLspDriver } from './server.js'
-import type { CodeSnippet, Diagnostic, DocumentSymbol } from './types.js'
+import type {
+  CallHierarchyItem,
+  CodeAction,
+  CodeSnippet,
+  CompletionItem,
+  Diagnostic,
+  DiskRange,
+  DocumentSymbol,
+  ExactPosition,
+  HoverInfo,
+  PendingEditOperation,
+  SignatureHelp,
+  TextEdit,
+  TypeHierarchyItem,
+  WorkspaceEdit,
+  WorkspaceSymbol,
+} from './types.js'
 
 const mockFiles = {
   'file:///path/to/file': 'MockFileContent',
@@ -78,6 +108,14 @@ function createMockHierarchyProvider(
   }
 }
 
+function createMockHoverProvider(
+  result: HoverInfo | null = null,
+): HoverProvider {
+  return {
+    provideHover: vi.fn(async () => result),
+  }
+}
+
 function createMockDiagnosticsProvider(
   results: Diagnostic[] = [],
   workspaceResults?: Diagnostic[],
@@ -99,12 +137,30 @@ function createMockOutlineProvider(
   }
 }
 
-function createMockUserInteraction(approved = true): UserInteractionProvider {
+function createMockRenameProvider(
+  edit: WorkspaceEdit = { changes: {} },
+  canRename = true,
+): RenameProvider {
   return {
-    previewAndApplyEdits: vi.fn(async () => approved),
+    prepareRename: vi.fn(async () =>
+      canRename
+        ? {
+            start: { line: 0, character: 6 },
+            end: { line: 0, character: 9 },
+          }
+        : null,
+    ),
+    provideRenameEdits: vi.fn(async () => edit),
   }
 }
 
+function createMockUserInteraction(approved = true) {
+  return {
+    previewAndApplyEdits: vi.fn(async () => approved),
+    previewAndApplyWorkspaceEdit: vi.fn(async () => approved),
+  } satisfies UserInteractionProvider
+}
+
 function createMockGlobalFindProvider(
   matches: GlobalFindMatch[] = [],
   count = 0,
@@ -378,6 +434,71 @@ describe('McpLspDriver', () => {
       })
     })
 
+    it('should register get_hover and return hover information when called', async () => {
+      const server = createMockServer()
+      const hoverProvider = createMockHoverProvider({
+        contents: '```ts\nconst someVariable: number\n```',
+        kind: 'markdown',
+        range: {
+          start: { line: 9, character: 0 },
+          end: { line: 9, character: 12 },
+        },
+      })
+      const files = {
+        'file:///path/to/file':
+          'line1\nline2\nline3\nline4\nline5\nline6\nline7\nline8\nline9\nsomeVariable\nline11',
+      }
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess(files),
+        hover: hoverProvider,
+      }
+
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
+
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'get_hover',
+        arguments: {
+          uri: 'file:///path/to/file',
+          symbol_name: 'someVariable',
+          line_hint: 10,
+        },
+      })
+      expect(hoverProvider.provideHover).toHaveBeenCalledWith(
+        'file:///path/to/file',
+        { line: 9, character: 0 },
+      )
+      expect(r.structuredContent).toStrictEqual({
+        hover: {
+          contents: '```ts\nconst someVariable: number\n```',
+          kind: 'markdown',
+          startLine: 10,
+          endLine: 10,
+        },
+      })
+    })
+
+    it('should return null hover when the provider has no information', async () => {
+      const server = createMockServer()
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'const foo = 1;',
+        }),
+        hover: createMockHoverProvider(null),
+      }
+
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
+
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'get_hover',
+        arguments: { uri: 'file:///test.ts', symbol_name: 'foo', line_hint: 1 },
+      })
+      expect(r.structuredContent).toStrictEqual({ hover: null })
+    })
+
     it('should register diagnostics resources and return formatted results', async () => {
       const server = createMockServer()
       const diagnostics: Diagnostic[] = [
@@ -551,12 +672,13 @@ describe('McpLspDriver', () => {
       expect(r.structuredContent).toStrictEqual({
         success: true,
         message: 'Edit successfully applied and saved.',
+        version: computeContentVersion(files['file:///test.ts']),
       })
     })
 
-    it('should register apply_edit and return rejection when user declines', async () => {
+    it('should apply the edit when expected_version matches the file', async () => {
       const server = createMockServer()
-      const userInteraction = createMockUserInteraction(false)
+      const userInteraction = createMockUserInteraction(true)
       const files = { 'file:///test.ts': 'const foo = 1; const bar = 2;' }
       const capabilities: IdeCapabilities = {
         fileAccess: createMockFileAccess(files),
@@ -574,132 +696,1826 @@ describe('McpLspDriver', () => {
           search_text: 'const foo = 1;',
           replace_text: 'const foo = 100;',
           description: 'Update foo value',
+          expected_version: computeContentVersion(files['file:///test.ts']),
         },
       })
-      expect(r.structuredContent).toStrictEqual({
-        success: false,
-        message: 'Edit rejected by user.',
-      })
+      expect(r.structuredContent).toMatchObject({ success: true })
+      expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledTimes(1)
     })
-  })
-})
-
-describe('diagnostics subscription', () => {
-  it('should register onDiagnosticsChanged callback when provided', () => {
-    const server = createMockServer()
-    const diagnosticsProvider = createMockDiagnosticsProvider()
-    let registeredCallback: OnDiagnosticsChangedCallback | undefined
-
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      diagnostics: diagnosticsProvider,
-      onDiagnosticsChanged: (callback) => {
-        registeredCallback = callback
-      },
-    }
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
-    expect(registeredCallback).toBeDefined()
-  })
-})
+    it('should fail with ValidationFailed when the file changed since it was read', async () => {
+      const server = createMockServer()
+      const userInteraction = createMockUserInteraction(true)
+      const files = { 'file:///test.ts': 'const foo = 1; const bar = 2;' }
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess(files),
+        userInteraction,
+      }
 
-describe('edit operations', () => {
-  it('should create pending edit operation with correct structure', () => {
-    const server = createMockServer()
-    const userInteraction = createMockUserInteraction(true)
-    const files = { 'test.ts': 'const foo = 1;' }
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
 
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(files),
-      userInteraction,
-    }
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'const foo = 1;',
+          replace_text: 'const foo = 100;',
+          description: 'Update foo value',
+          expected_version: computeContentVersion('const foo = 1;'),
+        },
+      })
+      expect(r.isError).toBe(true)
+      expect(r.structuredContent).toMatchObject({
+        success: false,
+        reason: 'ValidationFailed',
+      })
+      expect(userInteraction.previewAndApplyEdits).not.toHaveBeenCalled()
+    })
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
-  })
+    it('should match the edit against the content whose version was checked', async () => {
+      const server = createMockServer()
+      const userInteraction = createMockUserInteraction(true)
+      const fileAccess = createMockFileAccess({
+        'file:///test.ts': 'let x = 0;\nconst foo = 1;',
+      })
+      // The file changes right after the first read
+      vi.mocked(fileAccess.readFile).mockResolvedValueOnce('const foo = 1;')
+      const capabilities: IdeCapabilities = { fileAccess, userInteraction }
 
-  it('should handle user rejection of edits', () => {
-    const server = createMockServer()
-    const userInteraction = createMockUserInteraction(false)
-    const files = { 'test.ts': 'const foo = 1;' }
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
 
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(files),
-      userInteraction,
-    }
+      const client = await createAndConnectMockClient(server)
+      await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'foo = 1',
+          replace_text: 'foo = 100',
+          description: 'Update foo value',
+          expected_version: computeContentVersion('const foo = 1;'),
+        },
+      })
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
-  })
-})
+      expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledWith(
+        expect.objectContaining({
+          edits: [
+            {
+              range: {
+                start: { line: 0, character: 6 },
+                end: { line: 0, character: 13 },
+              },
+              newText: 'foo = 100',
+            },
+          ],
+        }),
+      )
+    })
 
-describe('error handling', () => {
-  it('should handle SymbolResolutionError gracefully', () => {
-    const server = createMockServer()
-    const definitionProvider = createMockDefinitionProvider()
-    const files = { 'test.ts': 'const foo = 1;' }
+    it('should return NotFound when the search text does not exist', async () => {
+      const server = createMockServer()
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'const foo = 1;',
+        }),
+        userInteraction: createMockUserInteraction(true),
+      }
 
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(files),
-      definition: definitionProvider,
-    }
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
-  })
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'const bar = 1;',
+          replace_text: 'const bar = 2;',
+          description: 'Update bar value',
+        },
+      })
+      expect(r.isError).toBe(true)
+      expect(r.structuredContent).toStrictEqual({
+        success: false,
+        message: 'Error: Text not found in file: "const bar = 1;"',
+        reason: 'NotFound',
+        matchCount: 0,
+      })
+    })
 
-  it('should handle file read errors', () => {
-    const server = createMockServer()
-    const definitionProvider = createMockDefinitionProvider()
+    it('should return Ambiguous with candidate lines when the search text is not unique', async () => {
+      const server = createMockServer()
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'let x = 1;\nfoo();\nlet x = 1;\n\nlet x = 1;',
+        }),
+        userInteraction: createMockUserInteraction(true),
+      }
 
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess({}), // No files
-      definition: definitionProvider,
-    }
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
-  })
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'let x = 1;',
+          replace_text: 'let x = 2;',
+          description: 'Update x',
+        },
+      })
+      expect(r.isError).toBe(true)
+      expect(r.structuredContent).toMatchObject({
+        success: false,
+        reason: 'Ambiguous',
+        matchCount: 3,
+        candidateLines: [1, 3, 5],
+      })
+    })
 
-  it('should handle provider errors', () => {
-    const server = createMockServer()
-    const definitionProvider: DefinitionProvider = {
-      provideDefinition: vi.fn(async () => {
-        throw new Error('Provider error')
-      }),
-    }
+    it('should return IOError when the user interaction provider fails', async () => {
+      const server = createMockServer()
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'const foo = 1;',
+        }),
+        userInteraction: {
+          previewAndApplyEdits: vi.fn(async () => {
+            throw new Error('Disk full')
+          }),
+        },
+      }
 
-    const files = { 'test.ts': 'const foo = 1;' }
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(files),
-      definition: definitionProvider,
-    }
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
-  })
-})
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'const foo = 1;',
+          replace_text: 'const foo = 2;',
+          description: 'Update foo value',
+        },
+      })
+      expect(r.isError).toBe(true)
+      expect(r.structuredContent).toStrictEqual({
+        success: false,
+        message: 'Error: Disk full',
+        reason: 'IOError',
+      })
+    })
 
-describe('resource integration', () => {
-  it('should register and access file diagnostics resource', async () => {
-    const server = createMockServer()
-    const diagnostics: Diagnostic[] = [
-      {
-        uri: 'test.ts',
+    it('should report diagnostics introduced and resolved by an edit', async () => {
+      const server = createMockServer()
+      const oldDiagnostic: Diagnostic = {
+        uri: 'file:///test.ts',
         range: {
-          start: { line: 0, character: 5 },
-          end: { line: 0, character: 10 },
+          start: { line: 0, character: 6 },
+          end: { line: 0, character: 9 },
+        },
+        severity: 'warning',
+        message: "'foo' is declared but never used",
+        source: 'typescript',
+      }
+      const newDiagnostic: Diagnostic = {
+        uri: 'file:///test.ts',
+        range: {
+          start: { line: 0, character: 12 },
+          end: { line: 0, character: 15 },
         },
         severity: 'error',
-        message: 'Syntax error',
+        message: "Cannot find name 'baz'",
         source: 'typescript',
-        code: 2322,
-      },
-    ]
-    const diagnosticsProvider = createMockDiagnosticsProvider(diagnostics)
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
+        code: 2304,
+      }
+      let onChanged: OnDiagnosticsChangedCallback | undefined
+      let current = [oldDiagnostic]
+      const diagnosticsProvider: DiagnosticsProvider = {
+        provideDiagnostics: vi.fn(async () => current),
+      }
+      const userInteraction: UserInteractionProvider = {
+        previewAndApplyEdits: vi.fn(async () => {
+          // The IDE refreshes diagnostics shortly after the edit is saved
+          setTimeout(() => {
+            current = [newDiagnostic]
+            onChanged?.('file:///test.ts')
+          }, 5)
+          return true
+        }),
+      }
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'const foo = bar;',
+        }),
+        userInteraction,
+        diagnostics: diagnosticsProvider,
+        onDiagnosticsChanged: (callback) => {
+          onChanged = callback
+        },
+      }
+
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
+
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'bar',
+          replace_text: 'baz',
+          description: 'Use baz',
+          wait_for_diagnostics: true,
+        },
+      })
+      expect(r.structuredContent).toMatchObject({
+        success: true,
+        diagnostics: {
+          introduced: [
+            {
+              line: 1,
+              severity: 'error',
+              message: "Cannot find name 'baz'",
+              source: 'typescript',
+              code: 2304,
+            },
+          ],
+          resolved: [
+            {
+              line: 1,
+              severity: 'warning',
+              message: "'foo' is declared but never used",
+              source: 'typescript',
+            },
+          ],
+          refreshed: true,
+        },
+      })
+    })
+
+    it('should count a refresh published while the edit is applied', async () => {
+      const server = createMockServer()
+      let onChanged: OnDiagnosticsChangedCallback | undefined
+      const userInteraction: UserInteractionProvider = {
+        previewAndApplyEdits: vi.fn(async () => {
+          // The IDE publishes diagnostics before the edit call returns
+          onChanged?.('file:///test.ts')
+          return true
+        }),
+      }
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'const foo = 1;',
+        }),
+        userInteraction,
+        diagnostics: createMockDiagnosticsProvider([]),
+        onDiagnosticsChanged: (callback) => {
+          onChanged = callback
+        },
+      }
+
+      const { success } = installMcpLspDriver({
+        server,
+        capabilities,
+        config: { diagnosticsTimeoutMs: 1000 },
+      })
+      expect(success).toBeTruthy()
+
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'const foo = 1;',
+          replace_text: 'const foo = 2;',
+          description: 'Update foo value',
+          wait_for_diagnostics: true,
+        },
+      })
+      expect(r.structuredContent).toMatchObject({
+        success: true,
+        diagnostics: { refreshed: true },
+      })
+    })
+
+    it('should report unrefreshed diagnostics after the timeout', async () => {
+      const server = createMockServer()
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'const foo = 1;',
+        }),
+        userInteraction: createMockUserInteraction(true),
+        diagnostics: createMockDiagnosticsProvider([]),
+        onDiagnosticsChanged: () => {},
+      }
+
+      const { success } = installMcpLspDriver({
+        server,
+        capabilities,
+        config: { diagnosticsTimeoutMs: 5 },
+      })
+      expect(success).toBeTruthy()
+
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'const foo = 1;',
+          replace_text: 'const foo = 2;',
+          description: 'Update foo value',
+          wait_for_diagnostics: true,
+        },
+      })
+      expect(r.structuredContent).toMatchObject({
+        success: true,
+        diagnostics: { introduced: [], resolved: [], refreshed: false },
+      })
+    })
+
+    it('should apply a re-indented edit when ignoring whitespace', async () => {
+      const server = createMockServer()
+      const userInteraction = createMockUserInteraction(true)
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess({
+          'file:///test.ts': 'function f() {\n\tif (x) {\n\t\ty()\n\t}\n}',
+        }),
+        userInteraction,
+      }
+
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
+
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: '  if (x) {\n    y()\n  }',
+          replace_text: '  if (x) {\n    z()\n  }',
+          description: 'Call z',
+          ignore_whitespace: true,
+        },
+      })
+      expect(r.isError).toBeFalsy()
+      expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledWith(
+        expect.objectContaining({
+          edits: [
+            {
+              range: {
+                start: { line: 1, character: 0 },
+                end: { line: 3, character: 2 },
+              },
+              newText: '\tif (x) {\n\t\tz()\n\t}',
+            },
+          ],
+        }),
+      )
+    })
+
+    it('should register apply_edit and return rejection when user declines', async () => {
+      const server = createMockServer()
+      const userInteraction = createMockUserInteraction(false)
+      const files = { 'file:///test.ts': 'const foo = 1; const bar = 2;' }
+      const capabilities: IdeCapabilities = {
+        fileAccess: createMockFileAccess(files),
+        userInteraction,
+      }
+
+      const { success } = installMcpLspDriver({ server, capabilities })
+      expect(success).toBeTruthy()
+
+      const client = await createAndConnectMockClient(server)
+      const r = await client.callTool({
+        name: 'apply_edit',
+        arguments: {
+          uri: 'file:///test.ts',
+          search_text: 'const foo = 1;',
+          replace_text: 'const foo = 100;',
+          description: 'Update foo value',
+        },
+      })
+      expect(r.structuredContent).toStrictEqual({
+        success: false,
+        message: 'Edit rejected by user.',
+        reason: 'UserRejected',
+      })
+    })
+  })
+})
+
+describe('apply_multi_edit tool', () => {
+  const files = {
+    'file:///test.ts': 'const foo = 1;\nconst bar = 2;\nconst baz = 3;',
+  }
+
+  it('should build one pending operation with every hunk', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'apply_multi_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        edits: [
+          { search_text: 'const baz = 3;', replace_text: 'const baz = 30;' },
+          { search_text: 'const foo = 1;', replace_text: 'const foo = 10;' },
+        ],
+        description: 'Scale constants',
+      },
+    })
+
+    expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledTimes(1)
+    expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledWith({
+      id: expect.any(String),
+      uri: 'file:///test.ts',
+      description: 'Scale constants',
+      edits: [
+        {
+          range: {
+            start: { line: 2, character: 0 },
+            end: { line: 2, character: 14 },
+          },
+          newText: 'const baz = 30;',
+        },
+        {
+          range: {
+            start: { line: 0, character: 0 },
+            end: { line: 0, character: 14 },
+          },
+          newText: 'const foo = 10;',
+        },
+      ],
+    })
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      message: '2 hunk(s) successfully applied and saved.',
+      version: computeContentVersion(files['file:///test.ts']),
+    })
+  })
+
+  it('should report which hunk could not be matched', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'apply_multi_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        edits: [
+          { search_text: 'const foo = 1;', replace_text: 'const foo = 10;' },
+          { search_text: 'const qux = 4;', replace_text: 'const qux = 40;' },
+        ],
+        description: 'Scale constants',
+      },
+    })
+
+    expect(r.isError).toBe(true)
+    expect(r.structuredContent).toMatchObject({
+      success: false,
+      message: expect.stringContaining('Hunk 2: Text not found'),
+    })
+    expect(userInteraction.previewAndApplyEdits).not.toHaveBeenCalled()
+  })
+
+  it('should reject overlapping hunks', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'apply_multi_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        edits: [
+          { search_text: 'bar = 2;', replace_text: 'bar = 20;' },
+          { search_text: 'const bar', replace_text: 'let bar' },
+        ],
+        description: 'Overlapping hunks',
+      },
+    })
+
+    expect(r.isError).toBe(true)
+    expect(r.structuredContent).toStrictEqual({
+      success: false,
+      message: 'Error: Hunks 2 and 1 overlap.',
+      reason: 'ValidationFailed',
+    })
+    expect(userInteraction.previewAndApplyEdits).not.toHaveBeenCalled()
+  })
+})
+
+describe('apply_workspace_edit tool', () => {
+  const files = {
+    'file:///a.ts': 'const foo = 1;\nexport { foo }',
+    'file:///b.ts': "import { foo } from './a'",
+  }
+
+  it('should apply edits across files in a single approval', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits: [
+          {
+            uri: 'file:///a.ts',
+            search_text: 'const foo = 1;',
+            replace_text: 'const foo = 2;',
+          },
+          {
+            uri: 'file:///a.ts',
+            search_text: 'export { foo }',
+            replace_text: 'export { foo as default }',
+          },
+          {
+            uri: 'file:///b.ts',
+            search_text: 'import { foo }',
+            replace_text: 'import foo',
+          },
+        ],
+        description: 'Switch to a default export',
+      },
+    })
+
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledTimes(
+      1,
+    )
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledWith({
+      id: expect.any(String),
+      description: 'Switch to a default export',
+      edit: {
+        changes: {
+          'file:///a.ts': [
+            {
+              range: {
+                start: { line: 0, character: 0 },
+                end: { line: 0, character: 14 },
+              },
+              newText: 'const foo = 2;',
+            },
+            {
+              range: {
+                start: { line: 1, character: 0 },
+                end: { line: 1, character: 14 },
+              },
+              newText: 'export { foo as default }',
+            },
+          ],
+          'file:///b.ts': [
+            {
+              range: {
+                start: { line: 0, character: 0 },
+                end: { line: 0, character: 14 },
+              },
+              newText: 'import foo',
+            },
+          ],
+        },
+      },
+    })
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      message: 'Workspace edit successfully applied and saved.',
+      files: [
+        { uri: 'file:///a.ts', editCount: 2 },
+        { uri: 'file:///b.ts', editCount: 1 },
+      ],
+    })
+  })
+
+  it('should include file operations and key edits by the renamed URI', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits: [
+          {
+            uri: 'file:///a.ts',
+            search_text: 'const foo = 1;',
+            replace_text: 'const foo = 2;',
+          },
+        ],
+        file_operations: [
+          { kind: 'rename', old_uri: 'file:///a.ts', new_uri: 'file:///c.ts' },
+          { kind: 'create', uri: 'file:///d.ts', content: 'export {}' },
+          { kind: 'delete', uri: 'file:///b.ts' },
+        ],
+        description: 'Reorganize modules',
+      },
+    })
+
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        edit: {
+          fileOperations: [
+            { kind: 'rename', oldUri: 'file:///a.ts', newUri: 'file:///c.ts' },
+            { kind: 'create', uri: 'file:///d.ts' },
+            { kind: 'delete', uri: 'file:///b.ts' },
+          ],
+          changes: {
+            'file:///d.ts': [
+              {
+                range: {
+                  start: { line: 0, character: 0 },
+                  end: { line: 0, character: 0 },
+                },
+                newText: 'export {}',
+              },
+            ],
+            'file:///c.ts': [
+              {
+                range: {
+                  start: { line: 0, character: 0 },
+                  end: { line: 0, character: 14 },
+                },
+                newText: 'const foo = 2;',
+              },
+            ],
+          },
+        },
+      }),
+    )
+  })
+
+  it('should follow rename chains and deletions of renamed files', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const edits = [
+      {
+        uri: 'file:///a.ts',
+        search_text: 'const foo = 1;',
+        replace_text: 'const foo = 2;',
+      },
+    ]
+    await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits,
+        file_operations: [
+          { kind: 'rename', old_uri: 'file:///a.ts', new_uri: 'file:///c.ts' },
+          { kind: 'rename', old_uri: 'file:///c.ts', new_uri: 'file:///e.ts' },
+        ],
+        description: 'Move a twice',
+      },
+    })
+    const deleted = await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits,
+        file_operations: [
+          { kind: 'rename', old_uri: 'file:///a.ts', new_uri: 'file:///c.ts' },
+          { kind: 'delete', uri: 'file:///c.ts' },
+        ],
+        description: 'Move and delete a',
+      },
+    })
+
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledTimes(
+      1,
+    )
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        edit: expect.objectContaining({
+          changes: { 'file:///e.ts': [expect.anything()] },
+        }),
+      }),
+    )
+    expect(deleted.structuredContent).toStrictEqual({
+      success: false,
+      message: 'Error: Cannot edit file:///a.ts because it is being deleted.',
+      reason: 'ValidationFailed',
+    })
+  })
+
+  it('should not be offered when the IDE cannot apply workspace edits', async () => {
+    const server = createMockServer()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction: { previewAndApplyEdits: vi.fn(async () => true) },
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const names = (await client.listTools()).tools.map((tool) => tool.name)
+    expect(names).toContain('apply_edit')
+    expect(names).not.toContain('apply_workspace_edit')
+  })
+
+  it('should reject overlapping edits without asking the user', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits: [
+          {
+            uri: 'file:///a.ts',
+            search_text: 'const foo = 1;',
+            replace_text: 'let foo = 1;',
+          },
+          {
+            uri: 'file:///a.ts',
+            search_text: 'foo = 1;\nexport',
+            replace_text: 'bar = 1;\nexport',
+          },
+        ],
+        description: 'Overlapping',
+      },
+    })
+
+    expect(r.isError).toBe(true)
+    expect(r.structuredContent).toStrictEqual({
+      success: false,
+      message: 'Error: Edits in file:///a.ts overlap at lines 1 and 1.',
+      reason: 'ValidationFailed',
+    })
+    expect(userInteraction.previewAndApplyWorkspaceEdit).not.toHaveBeenCalled()
+  })
+
+  it('should fail when a file changed since the version given for it', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits: [
+          {
+            uri: 'file:///a.ts',
+            search_text: 'const foo = 1;',
+            replace_text: 'const foo = 2;',
+            expected_version: computeContentVersion(files['file:///a.ts']),
+          },
+          {
+            uri: 'file:///b.ts',
+            search_text: 'import { foo }',
+            replace_text: 'import foo',
+            expected_version: computeContentVersion('outdated'),
+          },
+        ],
+        description: 'Switch to a default export',
+      },
+    })
+
+    expect(r.isError).toBe(true)
+    expect(r.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+      message: expect.stringMatching(
+        /^file:\/\/\/b\.ts: File has changed since version/,
+      ),
+    })
+    expect(userInteraction.previewAndApplyWorkspaceEdit).not.toHaveBeenCalled()
+  })
+
+  it('should report rejection of the whole workspace edit', async () => {
+    const server = createMockServer()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction: createMockUserInteraction(false),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits: [
+          {
+            uri: 'file:///b.ts',
+            search_text: 'import { foo }',
+            replace_text: 'import foo',
+          },
+        ],
+        description: 'Switch to a default import',
+      },
+    })
+
+    expect(r.structuredContent).toStrictEqual({
+      success: false,
+      message: 'Workspace edit rejected by user.',
+      reason: 'UserRejected',
+    })
+  })
+})
+
+describe('rename_symbol tool', () => {
+  const renameEdit: WorkspaceEdit = {
+    changes: {
+      'file:///a.ts': [
+        {
+          range: {
+            start: { line: 0, character: 6 },
+            end: { line: 0, character: 9 },
+          },
+          newText: 'bar',
+        },
+        {
+          range: {
+            start: { line: 1, character: 0 },
+            end: { line: 1, character: 3 },
+          },
+          newText: 'bar',
+        },
+      ],
+      'file:///b.ts': [
+        {
+          range: {
+            start: { line: 3, character: 9 },
+            end: { line: 3, character: 12 },
+          },
+          newText: 'bar',
+        },
+      ],
+    },
+  }
+  const files = {
+    'file:///a.ts': 'const foo = 1;\nfoo += 1;',
+    'file:///b.ts':
+      "import { foo } from './a'\n\n// Re-exported\nexport { foo }",
+  }
+
+  it('should present rename edits for approval and report touched files', async () => {
+    const server = createMockServer()
+    const renameProvider = createMockRenameProvider(renameEdit)
+    const userInteraction = createMockUserInteraction(true)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+      rename: renameProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'rename_symbol',
+      arguments: {
+        uri: 'file:///a.ts',
+        symbol_name: 'foo',
+        line_hint: 1,
+        new_name: 'bar',
+      },
+    })
+
+    expect(renameProvider.provideRenameEdits).toHaveBeenCalledWith(
+      'file:///a.ts',
+      { line: 0, character: 6 },
+      'bar',
+    )
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledTimes(
+      1,
+    )
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        edit: renameEdit,
+        description: "Rename 'foo' to 'bar'",
+      }),
+    )
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      message: "Renamed 'foo' to 'bar' in 2 file(s).",
+      files: [
+        { uri: 'file:///a.ts', editCount: 2 },
+        { uri: 'file:///b.ts', editCount: 1 },
+      ],
+    })
+  })
+
+  it('should report rejection when the user declines the rename', async () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(false)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+      rename: createMockRenameProvider(renameEdit),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'rename_symbol',
+      arguments: {
+        uri: 'file:///a.ts',
+        symbol_name: 'foo',
+        line_hint: 1,
+        new_name: 'bar',
+      },
+    })
+
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledTimes(
+      1,
+    )
+    expect(r.structuredContent).toStrictEqual({
+      success: false,
+      message: 'Rename rejected by user.',
+      reason: 'UserRejected',
+    })
+  })
+
+  it('should refuse multi-file renames when the IDE cannot apply workspace edits', async () => {
+    const server = createMockServer()
+    const userInteraction: UserInteractionProvider = {
+      previewAndApplyEdits: vi.fn(async () => true),
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+      rename: createMockRenameProvider(renameEdit),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'rename_symbol',
+      arguments: {
+        uri: 'file:///a.ts',
+        symbol_name: 'foo',
+        line_hint: 1,
+        new_name: 'bar',
+      },
+    })
+
+    expect(userInteraction.previewAndApplyEdits).not.toHaveBeenCalled()
+    expect(r.structuredContent).toStrictEqual({
+      success: false,
+      message:
+        'Error: The IDE cannot apply changes to several files or file operations.',
+      reason: 'ValidationFailed',
+    })
+  })
+
+  it('should fail when prepareRename rejects the position', async () => {
+    const server = createMockServer()
+    const renameProvider = createMockRenameProvider(renameEdit, false)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction: createMockUserInteraction(true),
+      rename: renameProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'rename_symbol',
+      arguments: {
+        uri: 'file:///a.ts',
+        symbol_name: 'foo',
+        line_hint: 1,
+        new_name: 'bar',
+      },
+    })
+
+    expect(r.isError).toBe(true)
+    expect(r.structuredContent).toStrictEqual({
+      success: false,
+      message: "Error: Symbol 'foo' cannot be renamed at this position.",
+      reason: 'ValidationFailed',
+    })
+    expect(renameProvider.provideRenameEdits).not.toHaveBeenCalled()
+  })
+})
+
+describe('symbol path anchors', () => {
+  const outlineSymbols: DocumentSymbol[] = [
+    {
+      name: 'UserService',
+      kind: 'class',
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 4, character: 1 },
+      },
+      selectionRange: {
+        start: { line: 0, character: 6 },
+        end: { line: 0, character: 17 },
+      },
+      children: [
+        {
+          name: 'findById',
+          kind: 'method',
+          range: {
+            start: { line: 1, character: 2 },
+            end: { line: 3, character: 3 },
+          },
+          selectionRange: {
+            start: { line: 1, character: 2 },
+            end: { line: 1, character: 10 },
+          },
+        },
+      ],
+    },
+  ]
+  const fileContent =
+    'class UserService {\n  findById(id) {\n    return id\n  }\n}'
+
+  it('should resolve symbol_path without line_hint when an outline is available', async () => {
+    const server = createMockServer()
+    const definitionProvider = createMockDefinitionProvider()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({ 'file:///test.ts': fileContent }),
+      definition: definitionProvider,
+      outline: createMockOutlineProvider(outlineSymbols),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'goto_definition',
+      arguments: {
+        uri: 'file:///test.ts',
+        symbol_name: 'findById',
+        symbol_path: 'UserService.findById',
+      },
+    })
+
+    expect(r.isError).toBeFalsy()
+    expect(definitionProvider.provideDefinition).toHaveBeenCalledWith(
+      'file:///test.ts',
+      { line: 1, character: 2 },
+    )
+  })
+
+  it('should only offer symbol_path when an outline is available', async () => {
+    const withOutline = createMockServer()
+    installMcpLspDriver({
+      server: withOutline,
+      capabilities: {
+        fileAccess: createMockFileAccess(),
+        definition: createMockDefinitionProvider(),
+        outline: createMockOutlineProvider(),
+      },
+    })
+    const withoutOutline = createMockServer()
+    installMcpLspDriver({
+      server: withoutOutline,
+      capabilities: {
+        fileAccess: createMockFileAccess(),
+        definition: createMockDefinitionProvider(),
+      },
+    })
+
+    const [a, b] = await Promise.all([
+      createAndConnectMockClient(withOutline).then((c) => c.listTools()),
+      createAndConnectMockClient(withoutOutline).then((c) => c.listTools()),
+    ])
+    const schemaA = a.tools.find(
+      (t) => t.name === 'goto_definition',
+    )?.inputSchema
+    const schemaB = b.tools.find(
+      (t) => t.name === 'goto_definition',
+    )?.inputSchema
+
+    expect(schemaA?.properties).toHaveProperty('symbol_path')
+    expect(schemaA?.required).not.toContain('line_hint')
+    expect(schemaB?.properties).not.toHaveProperty('symbol_path')
+    expect(schemaB?.required).toContain('line_hint')
+  })
+})
+
+describe('position encoding', () => {
+  it('should resolve positions in the configured encoding', async () => {
+    const server = createMockServer()
+    const definitionProvider = createMockDefinitionProvider()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({
+        'file:///test.ts': 'const s = "𝒳"; greet(s)',
+      }),
+      definition: definitionProvider,
+    }
+
+    const { success } = installMcpLspDriver({
+      server,
+      capabilities,
+      config: { positionEncoding: 'utf-32' },
+    })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    await client.callTool({
+      name: 'goto_definition',
+      arguments: { uri: 'file:///test.ts', symbol_name: 'greet', line_hint: 1 },
+    })
+
+    expect(definitionProvider.provideDefinition).toHaveBeenCalledWith(
+      'file:///test.ts',
+      { line: 0, character: 15 },
+    )
+  })
+
+  it('should record and undo edits in the configured encoding', async () => {
+    const server = createMockServer()
+    const files: Record<string, string> = {
+      'file:///test.ts': 'const s = "😀"; greet(s)',
+    }
+    const userInteraction: UserInteractionProvider = {
+      previewAndApplyEdits: vi.fn(async (operation) => {
+        const { uri, edits } = operation as PendingEditOperation
+        files[uri] = applyTextEdits(files[uri] ?? '', edits, 'utf-8')
+        return true
+      }),
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({
+      server,
+      capabilities,
+      config: { positionEncoding: 'utf-8' },
+    })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        search_text: 'greet(s)',
+        replace_text: 'greet(s, "🎉")',
+        description: 'Add emoji',
+      },
+    })
+    expect(files['file:///test.ts']).toBe('const s = "😀"; greet(s, "🎉")')
+
+    const r = await client.callTool({ name: 'undo_edit', arguments: {} })
+    expect(r.isError).toBeFalsy()
+    expect(files['file:///test.ts']).toBe('const s = "😀"; greet(s)')
+  })
+})
+
+describe('file content cache', () => {
+  function setup(files: Record<string, string>) {
+    let version = 0
+    let notifyFileChanged: (uri: string) => void = () => {}
+    const fileAccess: FileAccessProvider = {
+      ...createMockFileAccess(files),
+      stat: vi.fn(async () => ({ version })),
+      onFileChanged: (callback) => {
+        notifyFileChanged = callback
+      },
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess,
+      definition: createMockDefinitionProvider(),
+    }
+    return {
+      capabilities,
+      bumpVersion: () => version++,
+      notifyFileChanged: (uri: string) => notifyFileChanged(uri),
+    }
+  }
+
+  async function readTwice(client: Client) {
+    await client.callTool({
+      name: 'goto_definition',
+      arguments: {
+        uri: 'file:///src/test.ts',
+        symbol_name: 'foo',
+        line_hint: 1,
+      },
+    })
+    await client.readResource({ uri: 'lsp://files/file:///src/test.ts' })
+  }
+
+  it('should share file reads between tools and resources', async () => {
+    const server = createMockServer()
+    const { capabilities } = setup({ 'file:///src/test.ts': 'const foo = 1' })
+    installMcpLspDriver({ server, capabilities })
+    const client = await createAndConnectMockClient(server)
+
+    await readTwice(client)
+
+    expect(capabilities.fileAccess.readFile).toHaveBeenCalledTimes(1)
+  })
+
+  it('should re-read files whose version changed or that the IDE reported as changed', async () => {
+    const server = createMockServer()
+    const { capabilities, bumpVersion, notifyFileChanged } = setup({
+      'file:///src/test.ts': 'const foo = 1',
+    })
+    installMcpLspDriver({ server, capabilities })
+    const client = await createAndConnectMockClient(server)
+
+    await readTwice(client)
+    bumpVersion()
+    await readTwice(client)
+    notifyFileChanged('file:///src/test.ts')
+    await readTwice(client)
+
+    expect(capabilities.fileAccess.readFile).toHaveBeenCalledTimes(3)
+  })
+
+  it('should drop files reported as changed under a non-normalized URI', async () => {
+    const server = createMockServer()
+    const { capabilities, notifyFileChanged } = setup({
+      'src/test.ts': 'const foo = 1',
+    })
+    installMcpLspDriver({ server, capabilities })
+    const client = await createAndConnectMockClient(server)
+
+    await client.readResource({ uri: 'lsp://files/src/test.ts' })
+    notifyFileChanged('src\\test.ts')
+    await client.readResource({ uri: 'lsp://files/src/test.ts' })
+
+    expect(capabilities.fileAccess.readFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('should resolve symbols with the lines the IDE provides', async () => {
+    const server = createMockServer()
+    const fileAccess: FileAccessProvider = {
+      ...createMockFileAccess({ 'file:///src/test.ts': 'const foo = 1' }),
+      readLines: vi.fn(async () => ['const foo = 1']),
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess,
+      definition: createMockDefinitionProvider(),
+    }
+    installMcpLspDriver({ server, capabilities })
+    const client = await createAndConnectMockClient(server)
+
+    await client.callTool({
+      name: 'goto_definition',
+      arguments: {
+        uri: 'file:///src/test.ts',
+        symbol_name: 'foo',
+        line_hint: 1,
+      },
+    })
+
+    expect(fileAccess.readLines).toHaveBeenCalledWith('file:///src/test.ts')
+  })
+
+  it('should not cache when disabled', async () => {
+    const server = createMockServer()
+    const { capabilities } = setup({ 'file:///src/test.ts': 'const foo = 1' })
+    installMcpLspDriver({ server, capabilities, config: { fileCacheSize: 0 } })
+    const client = await createAndConnectMockClient(server)
+
+    await readTwice(client)
+
+    expect(capabilities.fileAccess.readFile).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('undo_edit tool', () => {
+  // Applies approved single-file edits to the in-memory files
+  function createApplyingUserInteraction(
+    files: Record<string, string>,
+    approved = true,
+  ): UserInteractionProvider {
+    return {
+      previewAndApplyEdits: vi.fn(async (operation) => {
+        if (approved && !('edit' in operation)) {
+          const { uri, edits } = operation as PendingEditOperation
+          files[uri] = applyTextEdits(files[uri] ?? '', edits)
+        }
+        return approved
+      }),
+      previewAndApplyWorkspaceEdit: vi.fn(async ({ edit }) => {
+        if (approved) {
+          for (const [uri, edits] of Object.entries(edit.changes)) {
+            files[uri] = applyTextEdits(files[uri] ?? '', edits)
+          }
+        }
+        return approved
+      }),
+    }
+  }
+
+  async function setup(files: Record<string, string>) {
+    const server = createMockServer()
+    const userInteraction = createApplyingUserInteraction(files)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+    return {
+      server,
+      userInteraction,
+      client: await createAndConnectMockClient(server),
+    }
+  }
+
+  it('should revert the most recent edit', async () => {
+    const files = { 'file:///test.ts': 'const foo = 1;\nconst bar = 2;' }
+    const { client } = await setup(files)
+
+    await client.callTool({
+      name: 'apply_multi_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        edits: [
+          { search_text: 'foo = 1', replace_text: 'foo = 10' },
+          { search_text: 'const bar', replace_text: 'let\nbar' },
+        ],
+        description: 'Update values',
+      },
+    })
+    expect(files['file:///test.ts']).toBe('const foo = 10;\nlet\nbar = 2;')
+
+    const r = await client.callTool({ name: 'undo_edit', arguments: {} })
+    expect(r.isError).toBeFalsy()
+    expect(r.structuredContent).toMatchObject({
+      success: true,
+      version: computeContentVersion('const foo = 1;\nconst bar = 2;'),
+    })
+    expect(files['file:///test.ts']).toBe('const foo = 1;\nconst bar = 2;')
+  })
+
+  it('should route the revert through user approval', async () => {
+    const files = { 'file:///test.ts': 'const foo = 1;' }
+    const { userInteraction, client } = await setup(files)
+
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        search_text: 'foo',
+        replace_text: 'bar',
+        description: 'Rename foo',
+      },
+    })
+    await client.callTool({ name: 'undo_edit', arguments: {} })
+
+    const preview = vi.mocked(userInteraction.previewAndApplyEdits)
+    expect(preview).toHaveBeenCalledTimes(2)
+    expect(preview.mock.calls[1]?.[0]).toMatchObject({
+      uri: 'file:///test.ts',
+      edits: [
+        {
+          range: {
+            start: { line: 0, character: 6 },
+            end: { line: 0, character: 9 },
+          },
+          newText: 'foo',
+        },
+      ],
+    })
+  })
+
+  it('should refuse to undo when the file has diverged', async () => {
+    const files: Record<string, string> = {
+      'file:///test.ts': 'const foo = 1;',
+    }
+    const { client } = await setup(files)
+
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        search_text: 'foo',
+        replace_text: 'bar',
+        description: 'Rename foo',
+      },
+    })
+    files['file:///test.ts'] = 'const bar = 2;'
+
+    const r = await client.callTool({ name: 'undo_edit', arguments: {} })
+    expect(r.isError).toBe(true)
+    expect(r.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+    })
+    expect(files['file:///test.ts']).toBe('const bar = 2;')
+  })
+
+  it('should revert all files of a workspace edit', async () => {
+    const files = {
+      'file:///a.ts': 'export const foo = 1;',
+      'file:///b.ts': "import { foo } from './a'",
+    }
+    const { userInteraction, client } = await setup(files)
+
+    await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        edits: [
+          { uri: 'file:///a.ts', search_text: 'foo', replace_text: 'bar' },
+          { uri: 'file:///b.ts', search_text: 'foo', replace_text: 'bar' },
+        ],
+        description: 'Rename foo',
+      },
+    })
+    expect(files['file:///b.ts']).toBe("import { bar } from './a'")
+
+    const r = await client.callTool({ name: 'undo_edit', arguments: {} })
+    expect(r.structuredContent).toMatchObject({
+      success: true,
+      files: [
+        { uri: 'file:///a.ts', editCount: 1 },
+        { uri: 'file:///b.ts', editCount: 1 },
+      ],
+    })
+    expect(files).toStrictEqual({
+      'file:///a.ts': 'export const foo = 1;',
+      'file:///b.ts': "import { foo } from './a'",
+    })
+    expect(userInteraction.previewAndApplyWorkspaceEdit).toHaveBeenCalledTimes(
+      2,
+    )
+  })
+
+  it('should refuse to undo an edit whose file changed during review', async () => {
+    const files: Record<string, string> = {
+      'file:///test.ts': 'const foo = 1;',
+    }
+    const { userInteraction, client } = await setup(files)
+    vi.mocked(userInteraction.previewAndApplyEdits).mockImplementationOnce(
+      async () => {
+        // The user typed in the file before approving the edit
+        files['file:///test.ts'] = 'const bar = 10;'
+        return true
+      },
+    )
+
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        search_text: 'foo',
+        replace_text: 'bar',
+        description: 'Rename foo',
+      },
+    })
+    const r = await client.callTool({ name: 'undo_edit', arguments: {} })
+
+    expect(r.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+      message: expect.stringMatching(
+        /cannot be undone: File file:\/\/\/test\.ts changed while the edit was being reviewed\.$/,
+      ),
+    })
+    expect(files['file:///test.ts']).toBe('const bar = 10;')
+  })
+
+  it('should refuse to undo edits that created, renamed or deleted files', async () => {
+    const files = { 'file:///a.ts': 'const foo = 1;' }
+    const { client } = await setup(files)
+
+    await client.callTool({
+      name: 'apply_workspace_edit',
+      arguments: {
+        file_operations: [{ kind: 'delete', uri: 'file:///a.ts' }],
+        description: 'Remove a.ts',
+      },
+    })
+    const r = await client.callTool({ name: 'undo_edit', arguments: {} })
+
+    expect(r.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+      message: expect.stringMatching(
+        /cannot be undone: It created, renamed or deleted files\.$/,
+      ),
+    })
+  })
+
+  it('should refuse unknown or already undone edits', async () => {
+    const files = { 'file:///test.ts': 'const foo = 1;' }
+    const { client } = await setup(files)
+
+    const empty = await client.callTool({ name: 'undo_edit', arguments: {} })
+    expect(empty.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+      message: 'Error: No edits to undo.',
+    })
+
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        search_text: 'foo',
+        replace_text: 'bar',
+        description: 'Rename foo',
+      },
+    })
+    const history = await client.readResource({ uri: 'lsp://edits/history' })
+    const text = history.contents[0]?.text as string
+    const editId = text.match(/\*\*(edit-[\w-]+)\*\*/)?.[1] as string
+
+    await client.callTool({ name: 'undo_edit', arguments: { edit_id: editId } })
+    const again = await client.callTool({
+      name: 'undo_edit',
+      arguments: { edit_id: editId },
+    })
+    expect(again.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+    })
+  })
+
+  it('should list applied edits and undos in the history resource', async () => {
+    const files = { 'file:///test.ts': 'const foo = 1;' }
+    const { server, client } = await setup(files)
+    const sendResourceUpdated = vi.spyOn(server.server, 'sendResourceUpdated')
+
+    const empty = await client.readResource({ uri: 'lsp://edits/history' })
+    expect(empty.contents[0]?.text).toBe('No edits applied yet.')
+
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri: 'file:///test.ts',
+        search_text: 'foo',
+        replace_text: 'bar',
+        description: 'Rename foo',
+      },
+    })
+    await client.callTool({ name: 'undo_edit', arguments: {} })
+
+    const r = await client.readResource({ uri: 'lsp://edits/history' })
+    const lines = (r.contents[0]?.text as string).split('\n')
+    expect(lines).toHaveLength(2)
+    expect(sendResourceUpdated).toHaveBeenCalledTimes(2)
+    expect(sendResourceUpdated).toHaveBeenCalledWith({
+      uri: 'lsp://edits/history',
+    })
+    expect(lines[0]).toMatch(/Rename foo .* - undone by `edit-/)
+    expect(lines[1]).toMatch(/\(undo of `edit-.*`\): Undo edit-/)
+  })
+})
+
+describe('diagnostics subscription', () => {
+  it('should register onDiagnosticsChanged callback when provided', () => {
+    const server = createMockServer()
+    const diagnosticsProvider = createMockDiagnosticsProvider()
+    let registeredCallback: OnDiagnosticsChangedCallback | undefined
+
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      diagnostics: diagnosticsProvider,
+      onDiagnosticsChanged: (callback) => {
+        registeredCallback = callback
+      },
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+    expect(registeredCallback).toBeDefined()
+  })
+})
+
+describe('edit operations', () => {
+  it('should create pending edit operation with correct structure', () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(true)
+    const files = { 'test.ts': 'const foo = 1;' }
+
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+  })
+
+  it('should handle user rejection of edits', () => {
+    const server = createMockServer()
+    const userInteraction = createMockUserInteraction(false)
+    const files = { 'test.ts': 'const foo = 1;' }
+
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      userInteraction,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+  })
+})
+
+describe('error handling', () => {
+  it('should handle SymbolResolutionError gracefully', () => {
+    const server = createMockServer()
+    const definitionProvider = createMockDefinitionProvider()
+    const files = { 'test.ts': 'const foo = 1;' }
+
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      definition: definitionProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+  })
+
+  it('should return candidate locations when a symbol cannot be resolved', async () => {
+    const server = createMockServer()
+    const lines = Array.from({ length: 30 }, (_, i) => `// line ${i + 1}`)
+    lines[4] = 'function target() {}'
+    lines[24] = '  target()'
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({ 'test.ts': lines.join('\n') }),
+      definition: createMockDefinitionProvider(),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'goto_definition',
+      arguments: { uri: 'test.ts', symbol_name: 'target', line_hint: 20 },
+    })
+
+    expect(r.isError).toBe(true)
+    expect(r.structuredContent).toStrictEqual({
+      error: expect.stringContaining('It occurs at line(s) 25, 5.'),
+      candidates: [
+        { line: 25, text: 'target()', distance: 5 },
+        { line: 5, text: 'function target() {}', distance: 15 },
+      ],
+    })
+  })
+
+  it('should handle file read errors', () => {
+    const server = createMockServer()
+    const definitionProvider = createMockDefinitionProvider()
+
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({}), // No files
+      definition: definitionProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+  })
+
+  it('should handle provider errors', () => {
+    const server = createMockServer()
+    const definitionProvider: DefinitionProvider = {
+      provideDefinition: vi.fn(async () => {
+        throw new Error('Provider error')
+      }),
+    }
+
+    const files = { 'test.ts': 'const foo = 1;' }
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      definition: definitionProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+  })
+})
+
+describe('resource integration', () => {
+  it('should register and access file diagnostics resource', async () => {
+    const server = createMockServer()
+    const diagnostics: Diagnostic[] = [
+      {
+        uri: 'test.ts',
+        range: {
+          start: { line: 0, character: 5 },
+          end: { line: 0, character: 10 },
+        },
+        severity: 'error',
+        message: 'Syntax error',
+        source: 'typescript',
+        code: 2322,
+      },
+    ]
+    const diagnosticsProvider = createMockDiagnosticsProvider(diagnostics)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      diagnostics: diagnosticsProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({ uri: 'lsp://diagnostics/test.ts' })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'text/markdown',
+      text: '- **ERROR** [typescript] (2322) at line 1: Syntax error',
+      uri: 'lsp://diagnostics/test.ts',
+    })
+  })
+
+  it('should register and access workspace diagnostics resource', async () => {
+    const server = createMockServer()
+    const workspaceDiagnostics: Diagnostic[] = [
+      {
+        uri: 'file1.ts',
+        range: {
+          start: { line: 1, character: 0 },
+          end: { line: 1, character: 5 },
+        },
+        severity: 'warning',
+        message: 'Unused variable',
+      },
+      {
+        uri: 'file2.ts',
+        range: {
+          start: { line: 5, character: 0 },
+          end: { line: 5, character: 3 },
+        },
+        severity: 'error',
+        message: 'Missing semicolon',
+      },
+    ]
+    const diagnosticsProvider = createMockDiagnosticsProvider(
+      [],
+      workspaceDiagnostics,
+    )
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
       diagnostics: diagnosticsProvider,
     }
 
@@ -707,572 +2523,1839 @@ describe('resource integration', () => {
     expect(success).toBeTruthy()
 
     const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({ uri: 'lsp://diagnostics/test.ts' })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'text/markdown',
-      text: '- **ERROR** [typescript] (2322) at line 1: Syntax error',
-      uri: 'lsp://diagnostics/test.ts',
+    const r = await client.readResource({ uri: 'lsp://diagnostics/workspace' })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'text/markdown',
+      text: `## file1.ts
+- **WARNING** at line 2: Unused variable
+
+## file2.ts
+- **ERROR** at line 6: Missing semicolon`,
+      uri: 'lsp://diagnostics/workspace',
+    })
+  })
+
+  it('should register and access outline resource', async () => {
+    const server = createMockServer()
+    const symbols: DocumentSymbol[] = [
+      {
+        name: 'MyClass',
+        kind: 'class',
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 10, character: 1 },
+        },
+        selectionRange: {
+          start: { line: 0, character: 6 },
+          end: { line: 0, character: 13 },
+        },
+        children: [
+          {
+            name: 'myMethod',
+            kind: 'method',
+            range: {
+              start: { line: 2, character: 2 },
+              end: { line: 5, character: 3 },
+            },
+            selectionRange: {
+              start: { line: 2, character: 2 },
+              end: { line: 2, character: 10 },
+            },
+          },
+        ],
+      },
+    ]
+    const outlineProvider = createMockOutlineProvider(symbols)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      outline: outlineProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({ uri: 'lsp://outline/test.ts' })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'text/markdown',
+      text: `- **class** \`MyClass\` (lines 1-11)
+  - **method** \`myMethod\` (lines 3-6)`,
+      uri: 'lsp://outline/test.ts',
+    })
+  })
+
+  it('should handle outline with nested symbols', async () => {
+    const server = createMockServer()
+    const symbols: DocumentSymbol[] = [
+      {
+        name: 'MyNamespace',
+        kind: 'namespace',
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 20, character: 1 },
+        },
+        selectionRange: {
+          start: { line: 0, character: 10 },
+          end: { line: 0, character: 21 },
+        },
+        children: [
+          {
+            name: 'MyClass',
+            kind: 'class',
+            range: {
+              start: { line: 2, character: 2 },
+              end: { line: 15, character: 3 },
+            },
+            selectionRange: {
+              start: { line: 2, character: 8 },
+              end: { line: 2, character: 15 },
+            },
+            children: [
+              {
+                name: 'constructor',
+                kind: 'method',
+                range: {
+                  start: { line: 4, character: 4 },
+                  end: { line: 6, character: 5 },
+                },
+                selectionRange: {
+                  start: { line: 4, character: 4 },
+                  end: { line: 4, character: 15 },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    ]
+    const outlineProvider = createMockOutlineProvider(symbols)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      outline: outlineProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({ uri: 'lsp://outline/test.ts' })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'text/markdown',
+      text: `- **namespace** \`MyNamespace\` (lines 1-21)
+  - **class** \`MyClass\` (lines 3-16)
+    - **method** \`constructor\` (lines 5-7)`,
+      uri: 'lsp://outline/test.ts',
+    })
+  })
+
+  it('should register and access filesystem resource for directory listing', async () => {
+    const server = createMockServer()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({}), // No files, so it falls back to readDirectory
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({ uri: 'lsp://files/file:///src' })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'application/json',
+      text: '["file1.ts","file2.ts","subdir"]',
+      uri: 'lsp://files/file:///src',
+    })
+  })
+
+  it('should read file content via filesystem resource', async () => {
+    const server = createMockServer()
+    const fileContent = 'line1\nline2\nline3\nline4\nline5'
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({
+        'file:///src/test.ts': fileContent,
+      }),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({
+      uri: 'lsp://files/file:///src/test.ts',
+    })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'text/plain',
+      text: fileContent,
+      _meta: { version: computeContentVersion(fileContent) },
+      uri: 'lsp://files/file:///src/test.ts',
+    })
+  })
+
+  it('should read specific line from file via filesystem resource', async () => {
+    const server = createMockServer()
+    const fileContent = 'line1\nline2\nline3\nline4\nline5'
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({
+        'file:///src/test.ts': fileContent,
+      }),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({
+      uri: 'lsp://files/file:///src/test.ts#L3',
+    })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'text/plain',
+      text: 'line3',
+      _meta: { version: computeContentVersion(fileContent) },
+      uri: 'lsp://files/file:///src/test.ts#L3',
+    })
+  })
+
+  it('should read line range from file via filesystem resource', async () => {
+    const server = createMockServer()
+    const fileContent = 'line1\nline2\nline3\nline4\nline5'
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({
+        'file:///src/test.ts': fileContent,
+      }),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({
+      uri: 'lsp://files/file:///src/test.ts#L2-L4',
+    })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'text/plain',
+      text: 'line2\nline3\nline4',
+      _meta: { version: computeContentVersion(fileContent) },
+      uri: 'lsp://files/file:///src/test.ts#L2-L4',
+    })
+  })
+
+  it('should register and access filetree resource', async () => {
+    const server = createMockServer()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({ uri: 'lsp://filetree/src' })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'application/json',
+      text: '["src/index.ts","src/utils.ts","README.md"]',
+      uri: 'lsp://filetree/src',
+    })
+  })
+
+  it('should access filetree resource with nested path', async () => {
+    const server = createMockServer()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({
+      uri: 'lsp://filetree/src/components',
+    })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'application/json',
+      text: '["src/index.ts","src/utils.ts","README.md"]',
+      uri: 'lsp://filetree/src/components',
+    })
+  })
+
+  it('should fallback to readDirectory when file read fails on lsp://files', async () => {
+    const server = createMockServer()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({}), // No files, readFile will fail
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.readResource({ uri: 'lsp://files/src' })
+    expect(r.contents).toHaveLength(1)
+    expect(r.contents[0]).toStrictEqual({
+      mimeType: 'application/json',
+      text: '["file1.ts","file2.ts","subdir"]',
+      uri: 'lsp://files/src',
+    })
+  })
+})
+
+describe('global find and replace tools', () => {
+  it('should register global_find tool when globalFind provider is available', () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+  })
+
+  it('should register global_find tool and return formatted results', async () => {
+    const server = createMockServer()
+    const matches: GlobalFindMatch[] = [
+      {
+        uri: 'file:///src/index.ts',
+        line: 10,
+        column: 5,
+        matchText: 'searchTerm',
+        context: 'const searchTerm = "value"',
+      },
+      {
+        uri: 'file:///src/utils.ts',
+        line: 25,
+        column: 12,
+        matchText: 'searchTerm',
+        context: 'function searchTerm() {}',
+      },
+    ]
+    const globalFindProvider = createMockGlobalFindProvider(matches)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'global_find',
+      arguments: {
+        query: 'searchTerm',
+        case_sensitive: true,
+        exact_match: false,
+        regex_mode: false,
+      },
+    })
+    expect(r.structuredContent).toStrictEqual({
+      matches: [
+        {
+          uri: 'file:///src/index.ts',
+          line: 10,
+          column: 5,
+          matchText: 'searchTerm',
+          context: 'const searchTerm = "value"',
+        },
+        {
+          uri: 'file:///src/utils.ts',
+          line: 25,
+          column: 12,
+          matchText: 'searchTerm',
+          context: 'function searchTerm() {}',
+        },
+      ],
+      count: 2,
+    })
+  })
+
+  it('should handle global_find with no matches', async () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider([])
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'global_find',
+      arguments: {
+        query: 'nonexistent',
+      },
+    })
+    expect(r.structuredContent).toStrictEqual({
+      matches: [],
+      count: 0,
+    })
+  })
+
+  it('should register global_replace tool when globalFind provider is available', () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider()
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+  })
+
+  it('should register global_replace tool and return replacement count', async () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider([], 5)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'global_replace',
+      arguments: {
+        query: 'oldName',
+        replace_with: 'newName',
+        case_sensitive: true,
+        exact_match: true,
+        regex_mode: false,
+      },
+    })
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      count: 5,
+    })
+  })
+
+  it('should handle global_replace with singular occurrence message', async () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider([], 1)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'global_replace',
+      arguments: {
+        query: 'oldName',
+        replace_with: 'newName',
+      },
+    })
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      count: 1,
+    })
+  })
+
+  it('should handle global_replace with zero replacements', async () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider([], 0)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'global_replace',
+      arguments: {
+        query: 'nonexistent',
+        replace_with: 'anything',
+      },
+    })
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      count: 0,
+    })
+  })
+
+  it('should use default values for optional global_find parameters', async () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider([])
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    await client.callTool({
+      name: 'global_find',
+      arguments: {
+        query: 'test',
+        // Omit optional parameters to test defaults
+      },
+    })
+
+    // Verify the provider was called with default options
+    expect(globalFindProvider.globalFind).toHaveBeenCalledWith('test', {
+      caseSensitive: false,
+      exactMatch: false,
+      regexMode: false,
+    })
+  })
+
+  it('should use default values for optional global_replace parameters', async () => {
+    const server = createMockServer()
+    const globalFindProvider = createMockGlobalFindProvider([], 0)
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      globalFind: globalFindProvider,
+    }
+
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    await client.callTool({
+      name: 'global_replace',
+      arguments: {
+        query: 'test',
+        replace_with: 'replacement',
+        // Omit optional parameters to test defaults
+      },
+    })
+
+    // Verify the provider was called with default options
+    expect(globalFindProvider.globalReplace).toHaveBeenCalledWith(
+      'test',
+      'replacement',
+      {
+        caseSensitive: false,
+        exactMatch: false,
+        regexMode: false,
+      },
+    )
+  })
+})
+
+describe('find_workspace_symbols tool', () => {
+  function symbol(
+    name: string,
+    kind: WorkspaceSymbol['kind'],
+    uri: string,
+    line: number,
+    containerName?: string,
+  ): WorkspaceSymbol {
+    return {
+      name,
+      kind,
+      uri,
+      range: {
+        start: { line, character: 0 },
+        end: { line, character: name.length },
+      },
+      ...(containerName && { containerName }),
+    }
+  }
+
+  async function setup(symbols: WorkspaceSymbol[]) {
+    const server = createMockServer()
+    const workspaceSymbols: WorkspaceSymbolProvider = {
+      provideWorkspaceSymbols: vi.fn(async () => symbols),
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(),
+      workspaceSymbols,
+    }
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+    return {
+      workspaceSymbols,
+      client: await createAndConnectMockClient(server),
+    }
+  }
+
+  const symbols = [
+    symbol('UserService', 'class', 'file:///src/user.ts', 4),
+    symbol('findUser', 'method', 'file:///src/user.ts', 9, 'UserService'),
+    symbol('User', 'interface', 'file:///src/types.ts', 0),
+  ]
+
+  it('should return symbols with 1-based lines', async () => {
+    const { client, workspaceSymbols } = await setup(symbols)
+
+    const r = await client.callTool({
+      name: 'find_workspace_symbols',
+      arguments: { query: 'User' },
+    })
+
+    expect(workspaceSymbols.provideWorkspaceSymbols).toHaveBeenCalledWith(
+      'User',
+    )
+    expect(r.structuredContent).toStrictEqual({
+      symbols: [
+        {
+          name: 'UserService',
+          kind: 'class',
+          uri: 'file:///src/user.ts',
+          line: 5,
+        },
+        {
+          name: 'findUser',
+          kind: 'method',
+          containerName: 'UserService',
+          uri: 'file:///src/user.ts',
+          line: 10,
+        },
+        {
+          name: 'User',
+          kind: 'interface',
+          uri: 'file:///src/types.ts',
+          line: 1,
+        },
+      ],
+      total: 3,
+    })
+  })
+
+  it('should filter by kind and limit the results', async () => {
+    const { client } = await setup(symbols)
+
+    const r = await client.callTool({
+      name: 'find_workspace_symbols',
+      arguments: { query: 'User', kinds: ['class', 'interface'], limit: 1 },
+    })
+
+    expect(r.structuredContent).toStrictEqual({
+      symbols: [
+        {
+          name: 'UserService',
+          kind: 'class',
+          uri: 'file:///src/user.ts',
+          line: 5,
+        },
+      ],
+      total: 2,
+    })
+  })
+
+  it('should reject unknown kinds', async () => {
+    const { client } = await setup(symbols)
+
+    const r = await client.callTool({
+      name: 'find_workspace_symbols',
+      arguments: { query: 'User', kinds: ['widget'] },
+    })
+
+    expect(r.isError).toBeTruthy()
+  })
+
+  it('should return an error when the provider fails', async () => {
+    const { client, workspaceSymbols } = await setup([])
+    vi.mocked(workspaceSymbols.provideWorkspaceSymbols).mockRejectedValue(
+      new Error('Index not ready'),
+    )
+
+    const r = await client.callTool({
+      name: 'find_workspace_symbols',
+      arguments: { query: 'User' },
+    })
+
+    expect(r.isError).toBeTruthy()
+    expect(r.structuredContent).toStrictEqual({
+      error: 'Error: Index not ready',
+    })
+  })
+})
+
+describe('goto_type_definition and goto_implementation tools', () => {
+  const files = {
+    'file:///src/app.ts': 'const repo: Repository = createRepo()\nrepo.save()',
+  }
+  const snippet: CodeSnippet = {
+    uri: 'file:///src/repository.ts',
+    range: {
+      start: { line: 2, character: 0 },
+      end: { line: 5, character: 1 },
+    },
+    content: 'interface Repository {\n  save(): void\n}',
+  }
+
+  it('should resolve the position and return type definition snippets', async () => {
+    const server = createMockServer()
+    const typeDefinition: TypeDefinitionProvider = {
+      provideTypeDefinition: vi.fn(async () => [snippet]),
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      typeDefinition,
+    }
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+
+    const client = await createAndConnectMockClient(server)
+    const r = await client.callTool({
+      name: 'goto_type_definition',
+      arguments: {
+        uri: 'file:///src/app.ts',
+        symbol_name: 'repo',
+        line_hint: 1,
+      },
+    })
+
+    expect(typeDefinition.provideTypeDefinition).toHaveBeenCalledWith(
+      'file:///src/app.ts',
+      { line: 0, character: 6 },
+    )
+    expect(r.structuredContent).toStrictEqual({
+      snippets: [
+        {
+          uri: 'file:///src/repository.ts',
+          startLine: 3,
+          endLine: 6,
+          content: snippet.content,
+        },
+      ],
     })
   })
 
-  it('should register and access workspace diagnostics resource', async () => {
+  it('should resolve the position and return implementation snippets', async () => {
     const server = createMockServer()
-    const workspaceDiagnostics: Diagnostic[] = [
-      {
-        uri: 'file1.ts',
-        range: {
-          start: { line: 1, character: 0 },
-          end: { line: 1, character: 5 },
-        },
-        severity: 'warning',
-        message: 'Unused variable',
-      },
-      {
-        uri: 'file2.ts',
-        range: {
-          start: { line: 5, character: 0 },
-          end: { line: 5, character: 3 },
-        },
-        severity: 'error',
-        message: 'Missing semicolon',
-      },
-    ]
-    const diagnosticsProvider = createMockDiagnosticsProvider(
-      [],
-      workspaceDiagnostics,
-    )
+    const implementation: ImplementationProvider = {
+      provideImplementation: vi.fn(async () => [snippet]),
+    }
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      diagnostics: diagnosticsProvider,
+      fileAccess: createMockFileAccess(files),
+      implementation,
     }
-
     const { success } = installMcpLspDriver({ server, capabilities })
     expect(success).toBeTruthy()
 
     const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({ uri: 'lsp://diagnostics/workspace' })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'text/markdown',
-      text: `## file1.ts
-- **WARNING** at line 2: Unused variable
+    const r = await client.callTool({
+      name: 'goto_implementation',
+      arguments: {
+        uri: 'file:///src/app.ts',
+        symbol_name: 'save',
+        line_hint: 2,
+      },
+    })
 
-## file2.ts
-- **ERROR** at line 6: Missing semicolon`,
-      uri: 'lsp://diagnostics/workspace',
+    expect(implementation.provideImplementation).toHaveBeenCalledWith(
+      'file:///src/app.ts',
+      { line: 1, character: 5 },
+    )
+    expect(r.structuredContent).toStrictEqual({
+      snippets: [
+        {
+          uri: 'file:///src/repository.ts',
+          startLine: 3,
+          endLine: 6,
+          content: snippet.content,
+        },
+      ],
     })
   })
 
-  it('should register and access outline resource', async () => {
+  it('should report resolution errors with candidates', async () => {
     const server = createMockServer()
-    const symbols: DocumentSymbol[] = [
-      {
-        name: 'MyClass',
-        kind: 'class',
-        range: {
-          start: { line: 0, character: 0 },
-          end: { line: 10, character: 1 },
-        },
-        selectionRange: {
-          start: { line: 0, character: 6 },
-          end: { line: 0, character: 13 },
-        },
-        children: [
-          {
-            name: 'myMethod',
-            kind: 'method',
-            range: {
-              start: { line: 2, character: 2 },
-              end: { line: 5, character: 3 },
-            },
-            selectionRange: {
-              start: { line: 2, character: 2 },
-              end: { line: 2, character: 10 },
-            },
-          },
-        ],
-      },
-    ]
-    const outlineProvider = createMockOutlineProvider(symbols)
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      outline: outlineProvider,
+      fileAccess: createMockFileAccess(files),
+      implementation: { provideImplementation: vi.fn(async () => []) },
     }
-
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    installMcpLspDriver({ server, capabilities })
 
     const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({ uri: 'lsp://outline/test.ts' })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'text/markdown',
-      text: `- **class** \`MyClass\` (lines 1-11)
-  - **method** \`myMethod\` (lines 3-6)`,
-      uri: 'lsp://outline/test.ts',
+    const r = await client.callTool({
+      name: 'goto_implementation',
+      arguments: {
+        uri: 'file:///src/app.ts',
+        symbol_name: 'missing',
+        line_hint: 1,
+      },
     })
+
+    expect(r.isError).toBeTruthy()
+    expect(r.structuredContent).toHaveProperty('error')
+    expect(
+      capabilities.implementation?.provideImplementation,
+    ).not.toHaveBeenCalled()
   })
 
-  it('should handle outline with nested symbols', async () => {
+  it('should not register the tools without providers', async () => {
     const server = createMockServer()
-    const symbols: DocumentSymbol[] = [
+    installMcpLspDriver({
+      server,
+      capabilities: {
+        fileAccess: createMockFileAccess(files),
+        definition: createMockDefinitionProvider(),
+      },
+    })
+
+    const client = await createAndConnectMockClient(server)
+    const names = (await client.listTools()).tools.map((tool) => tool.name)
+
+    expect(names).toContain('goto_definition')
+    expect(names).not.toContain('goto_type_definition')
+    expect(names).not.toContain('goto_implementation')
+  })
+})
+
+describe('type_hierarchy tool', () => {
+  const files = {
+    'file:///src/repo.ts':
+      'interface Repository {}\nclass SqlRepository implements Repository {}',
+  }
+
+  async function setup(items: TypeHierarchyItem[]) {
+    const server = createMockServer()
+    const typeHierarchy: TypeHierarchyProvider = {
+      provideTypeHierarchy: vi.fn(async () => items),
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess(files),
+      typeHierarchy,
+    }
+    const { success } = installMcpLspDriver({ server, capabilities })
+    expect(success).toBeTruthy()
+    return { typeHierarchy, client: await createAndConnectMockClient(server) }
+  }
+
+  it('should return subtypes with their name and kind', async () => {
+    const { typeHierarchy, client } = await setup([
       {
-        name: 'MyNamespace',
-        kind: 'namespace',
+        name: 'SqlRepository',
+        kind: 'class',
+        uri: 'file:///src/repo.ts',
         range: {
-          start: { line: 0, character: 0 },
-          end: { line: 20, character: 1 },
+          start: { line: 1, character: 0 },
+          end: { line: 1, character: 45 },
         },
-        selectionRange: {
-          start: { line: 0, character: 10 },
-          end: { line: 0, character: 21 },
+        content: 'class SqlRepository implements Repository {}',
+      },
+    ])
+
+    const r = await client.callTool({
+      name: 'type_hierarchy',
+      arguments: {
+        uri: 'file:///src/repo.ts',
+        symbol_name: 'Repository',
+        line_hint: 1,
+        direction: 'subtypes',
+      },
+    })
+
+    expect(typeHierarchy.provideTypeHierarchy).toHaveBeenCalledWith(
+      'file:///src/repo.ts',
+      { line: 0, character: 10 },
+      'subtypes',
+    )
+    expect(r.structuredContent).toStrictEqual({
+      types: [
+        {
+          name: 'SqlRepository',
+          kind: 'class',
+          uri: 'file:///src/repo.ts',
+          startLine: 2,
+          endLine: 2,
+          content: 'class SqlRepository implements Repository {}',
         },
-        children: [
-          {
-            name: 'MyClass',
-            kind: 'class',
-            range: {
-              start: { line: 2, character: 2 },
-              end: { line: 15, character: 3 },
-            },
-            selectionRange: {
-              start: { line: 2, character: 8 },
-              end: { line: 2, character: 15 },
-            },
-            children: [
-              {
-                name: 'constructor',
-                kind: 'method',
-                range: {
-                  start: { line: 4, character: 4 },
-                  end: { line: 6, character: 5 },
-                },
-                selectionRange: {
-                  start: { line: 4, character: 4 },
-                  end: { line: 4, character: 15 },
-                },
-              },
-            ],
-          },
-        ],
+      ],
+    })
+  })
+
+  it('should pass the supertypes direction to the provider', async () => {
+    const { typeHierarchy, client } = await setup([])
+
+    const r = await client.callTool({
+      name: 'type_hierarchy',
+      arguments: {
+        uri: 'file:///src/repo.ts',
+        symbol_name: 'SqlRepository',
+        line_hint: 2,
+        direction: 'supertypes',
       },
-    ]
-    const outlineProvider = createMockOutlineProvider(symbols)
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      outline: outlineProvider,
+    })
+
+    expect(r.structuredContent).toStrictEqual({ types: [] })
+    expect(typeHierarchy.provideTypeHierarchy).toHaveBeenCalledWith(
+      'file:///src/repo.ts',
+      { line: 1, character: 6 },
+      'supertypes',
+    )
+  })
+
+  it('should reject an invalid direction', async () => {
+    const { typeHierarchy, client } = await setup([])
+
+    const r = await client.callTool({
+      name: 'type_hierarchy',
+      arguments: {
+        uri: 'file:///src/repo.ts',
+        symbol_name: 'Repository',
+        line_hint: 1,
+        direction: 'incoming',
+      },
+    })
+
+    expect(r.isError).toBeTruthy()
+    expect(typeHierarchy.provideTypeHierarchy).not.toHaveBeenCalled()
+  })
+})
+
+describe('call_hierarchy max_depth', () => {
+  const content =
+    'function main() {\n  load()\n}\nfunction load() {\n  main()\n}'
+
+  function item(name: string, line: number): CallHierarchyItem {
+    return {
+      uri: 'file:///src/app.ts',
+      name,
+      range: {
+        start: { line, character: 0 },
+        end: { line: line + 2, character: 1 },
+      },
+      content: `function ${name}() {}`,
     }
+  }
 
+  async function setup() {
+    const server = createMockServer()
+    const hierarchy: HierarchyProvider = {
+      provideCallHierarchy: vi.fn(async (_uri, position: ExactPosition) =>
+        position.line === 0 ? [item('load', 3)] : [item('main', 0)],
+      ),
+    }
+    const capabilities: IdeCapabilities = {
+      fileAccess: createMockFileAccess({ 'file:///src/app.ts': content }),
+      hierarchy,
+    }
     const { success } = installMcpLspDriver({ server, capabilities })
     expect(success).toBeTruthy()
+    return { hierarchy, client: await createAndConnectMockClient(server) }
+  }
 
-    const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({ uri: 'lsp://outline/test.ts' })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'text/markdown',
-      text: `- **namespace** \`MyNamespace\` (lines 1-21)
-  - **class** \`MyClass\` (lines 3-16)
-    - **method** \`constructor\` (lines 5-7)`,
-      uri: 'lsp://outline/test.ts',
+  it('should return the calls as a tree without repeating cycles', async () => {
+    const { hierarchy, client } = await setup()
+
+    const r = await client.callTool({
+      name: 'call_hierarchy',
+      arguments: {
+        uri: 'file:///src/app.ts',
+        symbol_name: 'main',
+        line_hint: 1,
+        direction: 'outgoing',
+        max_depth: 3,
+      },
+    })
+
+    expect(r.isError).toBeFalsy()
+    expect(r.structuredContent).toStrictEqual({
+      snippets: [
+        {
+          uri: 'file:///src/app.ts',
+          startLine: 4,
+          endLine: 6,
+          content: 'function load() {}',
+        },
+      ],
+      calls: [
+        {
+          uri: 'file:///src/app.ts',
+          name: 'load',
+          line: 4,
+          calls: [
+            {
+              uri: 'file:///src/app.ts',
+              name: 'main',
+              line: 1,
+              repeated: true,
+            },
+          ],
+        },
+      ],
+    })
+    expect(hierarchy.provideCallHierarchy).toHaveBeenLastCalledWith(
+      'file:///src/app.ts',
+      { line: 3, character: 9 },
+      'outgoing',
+    )
+  })
+
+  it('should return a single level without a tree by default', async () => {
+    const { client } = await setup()
+
+    const r = await client.callTool({
+      name: 'call_hierarchy',
+      arguments: {
+        uri: 'file:///src/app.ts',
+        symbol_name: 'main',
+        line_hint: 1,
+        direction: 'outgoing',
+      },
     })
+
+    expect(r.structuredContent).not.toHaveProperty('calls')
   })
+})
 
-  it('should register and access filesystem resource for directory listing', async () => {
+describe('code action tools', () => {
+  const uri = 'file:///src/app.ts'
+  const missingName: Diagnostic = {
+    uri,
+    range: {
+      start: { line: 1, character: 0 },
+      end: { line: 1, character: 8 },
+    },
+    severity: 'error',
+    message: "Cannot find name 'readFile'.",
+    code: 2304,
+  }
+  const unusedVariable: Diagnostic = {
+    uri,
+    range: {
+      start: { line: 2, character: 6 },
+      end: { line: 2, character: 11 },
+    },
+    severity: 'warning',
+    message: "'unused' is declared but never read.",
+  }
+  const addImport: CodeAction = {
+    title: "Add import from 'node:fs/promises'",
+    kind: 'quickfix',
+    isPreferred: true,
+    diagnostics: [missingName],
+    edit: {
+      changes: {
+        [uri]: [
+          {
+            range: {
+              start: { line: 0, character: 0 },
+              end: { line: 0, character: 0 },
+            },
+            newText: "import { readFile } from 'node:fs/promises'\n",
+          },
+        ],
+      },
+    },
+  }
+  const removeUnused: CodeAction = {
+    title: "Remove unused declaration for: 'unused'",
+    kind: 'quickfix',
+    diagnostics: [unusedVariable],
+  }
+  const extractFunction: CodeAction = {
+    title: 'Extract to function',
+    kind: 'refactor.extract.function',
+  }
+
+  function setup(options: { userInteraction?: boolean } = {}) {
+    const files: Record<string, string> = {
+      [uri]: "// app\nreadFile('a.txt')\nconst unused = 1",
+    }
     const server = createMockServer()
+    const codeActions: CodeActionProvider = {
+      provideCodeActions: vi.fn(async () => [
+        addImport,
+        removeUnused,
+        extractFunction,
+      ]),
+      resolveCodeAction: vi.fn(async (action: CodeAction) => ({
+        ...action,
+        edit: { changes: { [uri]: [] } },
+      })),
+    }
+    const userInteraction: UserInteractionProvider = {
+      previewAndApplyEdits: vi.fn(async (operation) => {
+        const { uri, edits } = operation as PendingEditOperation
+        files[uri] = applyTextEdits(files[uri] ?? '', edits)
+        return true
+      }),
+    }
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess({}), // No files, so it falls back to readDirectory
+      fileAccess: createMockFileAccess(files),
+      diagnostics: {
+        provideDiagnostics: vi.fn(async () => [missingName, unusedVariable]),
+      },
+      codeActions,
+      ...(options.userInteraction !== false && { userInteraction }),
     }
-
     const { success } = installMcpLspDriver({ server, capabilities })
     expect(success).toBeTruthy()
+    return { server, files, codeActions, userInteraction }
+  }
+
+  async function listActions(
+    client: Client,
+    args: Record<string, unknown> = {},
+  ) {
+    const r = await client.callTool({
+      name: 'list_code_actions',
+      arguments: { uri, start_line: 2, ...args },
+    })
+    return r.structuredContent as {
+      actions: { id: string; title: string }[]
+    }
+  }
 
+  it('should list actions for a range with the diagnostics in it', async () => {
+    const { server, codeActions } = setup()
     const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({ uri: 'lsp://files/file:///src' })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'application/json',
-      text: '["file1.ts","file2.ts","subdir"]',
-      uri: 'lsp://files/file:///src',
+
+    const r = await client.callTool({
+      name: 'list_code_actions',
+      arguments: { uri, start_line: 2 },
+    })
+
+    expect(codeActions.provideCodeActions).toHaveBeenCalledWith(
+      uri,
+      { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } },
+      [missingName],
+    )
+    expect(r.structuredContent).toStrictEqual({
+      actions: [
+        {
+          id: expect.stringMatching(/^action-\d+$/),
+          title: "Add import from 'node:fs/promises'",
+          kind: 'quickfix',
+          isPreferred: true,
+          fixes: ["Cannot find name 'readFile'."],
+        },
+        {
+          id: expect.stringMatching(/^action-\d+$/),
+          title: "Remove unused declaration for: 'unused'",
+          kind: 'quickfix',
+          fixes: ["'unused' is declared but never read."],
+        },
+        {
+          id: expect.stringMatching(/^action-\d+$/),
+          title: 'Extract to function',
+          kind: 'refactor.extract.function',
+        },
+      ],
     })
   })
 
-  it('should read file content via filesystem resource', async () => {
-    const server = createMockServer()
-    const fileContent = 'line1\nline2\nline3\nline4\nline5'
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess({
-        'file:///src/test.ts': fileContent,
-      }),
-    }
+  it('should list fixes for a diagnostic and filter by kind', async () => {
+    const { server, codeActions } = setup()
+    const client = await createAndConnectMockClient(server)
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    const fixes = await listActions(client, { end_line: 3, diagnostic: '2304' })
+    const refactorings = await listActions(client, { kind: 'refactor' })
+
+    expect(codeActions.provideCodeActions).toHaveBeenNthCalledWith(
+      1,
+      uri,
+      missingName.range,
+      [missingName],
+    )
+    expect(fixes.actions.map((action) => action.title)).toStrictEqual([
+      "Add import from 'node:fs/promises'",
+    ])
+    expect(refactorings.actions.map((action) => action.title)).toStrictEqual([
+      'Extract to function',
+    ])
+  })
 
+  it('should fail when no diagnostic matches', async () => {
+    const { server } = setup()
     const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({
-      uri: 'lsp://files/file:///src/test.ts',
+
+    const r = await client.callTool({
+      name: 'list_code_actions',
+      arguments: { uri, start_line: 1, diagnostic: 'never read' },
     })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'text/plain',
-      text: fileContent,
-      uri: 'lsp://files/file:///src/test.ts',
+
+    expect(r.isError).toBeTruthy()
+    expect(r.structuredContent).toStrictEqual({
+      error: "Error: No diagnostic matching 'never read' on lines 1 to 1.",
     })
   })
 
-  it('should read specific line from file via filesystem resource', async () => {
-    const server = createMockServer()
-    const fileContent = 'line1\nline2\nline3\nline4\nline5'
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess({
-        'file:///src/test.ts': fileContent,
-      }),
-    }
+  it('should apply an action after user approval', async () => {
+    const { server, files, userInteraction } = setup()
+    const client = await createAndConnectMockClient(server)
+    const { actions } = await listActions(client)
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    const r = await client.callTool({
+      name: 'apply_code_action',
+      arguments: { action_id: actions[0]?.id },
+    })
+
+    expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledWith(
+      expect.objectContaining({
+        uri,
+        edits: addImport.edit?.changes[uri],
+        description: "Code action: Add import from 'node:fs/promises'",
+      }),
+    )
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      message: 'Applied "Add import from \'node:fs/promises\'" to 1 file(s).',
+      files: [{ uri, editCount: 1 }],
+    })
+    expect(files[uri]).toBe(
+      "import { readFile } from 'node:fs/promises'\n// app\nreadFile('a.txt')\nconst unused = 1",
+    )
+  })
 
+  it('should resolve the edit of actions listed without one', async () => {
+    const { server, codeActions } = setup()
     const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({
-      uri: 'lsp://files/file:///src/test.ts#L3',
+    const { actions } = await listActions(client)
+
+    const r = await client.callTool({
+      name: 'apply_code_action',
+      arguments: { action_id: actions[1]?.id },
     })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'text/plain',
-      text: 'line3',
-      uri: 'lsp://files/file:///src/test.ts#L3',
+
+    expect(codeActions.resolveCodeAction).toHaveBeenCalledWith(removeUnused)
+    expect(r.structuredContent).toStrictEqual({
+      success: false,
+      message: 'Code action produced no edits.',
+      reason: 'ValidationFailed',
     })
   })
 
-  it('should read line range from file via filesystem resource', async () => {
-    const server = createMockServer()
-    const fileContent = 'line1\nline2\nline3\nline4\nline5'
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess({
-        'file:///src/test.ts': fileContent,
-      }),
-    }
+  it('should refuse unknown actions and actions listed for older content', async () => {
+    const { server, files } = setup()
+    const client = await createAndConnectMockClient(server)
+    const { actions } = await listActions(client)
+    files[uri] = `${files[uri]}\n`
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    const unknown = await client.callTool({
+      name: 'apply_code_action',
+      arguments: { action_id: 'action-0' },
+    })
+    const stale = await client.callTool({
+      name: 'apply_code_action',
+      arguments: { action_id: actions[0]?.id },
+    })
 
-    const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({
-      uri: 'lsp://files/file:///src/test.ts#L2-L4',
+    expect(unknown.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+      message:
+        'Error: Code action action-0 is unknown or expired; list the code actions again.',
     })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'text/plain',
-      text: 'line2\nline3\nline4',
-      uri: 'lsp://files/file:///src/test.ts#L2-L4',
+    expect(stale.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+      message: `Error: File ${uri} has changed since the code actions were listed; list them again.`,
     })
   })
 
-  it('should register and access filetree resource', async () => {
-    const server = createMockServer()
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-    }
+  it('should refuse actions whose other files changed since they were listed', async () => {
+    const { server, files, codeActions } = setup()
+    const otherUri = 'file:///src/other.ts'
+    files[otherUri] = 'export {}'
+    vi.mocked(codeActions.provideCodeActions).mockResolvedValueOnce([
+      {
+        title: 'Move to other.ts',
+        kind: 'refactor.move',
+        edit: {
+          changes: {
+            [uri]: [
+              {
+                range: {
+                  start: { line: 2, character: 0 },
+                  end: { line: 2, character: 16 },
+                },
+                newText: '',
+              },
+            ],
+            [otherUri]: [
+              {
+                range: {
+                  start: { line: 0, character: 0 },
+                  end: { line: 0, character: 0 },
+                },
+                newText: 'const unused = 1\n',
+              },
+            ],
+          },
+        },
+      },
+    ])
+    const client = await createAndConnectMockClient(server)
+    const { actions } = await listActions(client)
+    files[otherUri] = 'export const other = 1'
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    const r = await client.callTool({
+      name: 'apply_code_action',
+      arguments: { action_id: actions[0]?.id },
+    })
 
-    const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({ uri: 'lsp://filetree/src' })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'application/json',
-      text: '["src/index.ts","src/utils.ts","README.md"]',
-      uri: 'lsp://filetree/src',
+    expect(r.structuredContent).toMatchObject({
+      success: false,
+      reason: 'ValidationFailed',
+      message: `Error: File ${otherUri} has changed since the code actions were listed; list them again.`,
     })
   })
 
-  it('should access filetree resource with nested path', async () => {
-    const server = createMockServer()
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-    }
+  it('should only register list_code_actions without user interaction', async () => {
+    const { server } = setup({ userInteraction: false })
+    const client = await createAndConnectMockClient(server)
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    const names = (await client.listTools()).tools.map((tool) => tool.name)
 
-    const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({
-      uri: 'lsp://filetree/src/components',
-    })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'application/json',
-      text: '["src/index.ts","src/utils.ts","README.md"]',
-      uri: 'lsp://filetree/src/components',
-    })
+    expect(names).toContain('list_code_actions')
+    expect(names).not.toContain('apply_code_action')
   })
+})
 
-  it('should fallback to readDirectory when file read fails on lsp://files', async () => {
+describe('formatting', () => {
+  const uri = 'file:///src/app.ts'
+
+  // Spaces assignments within a range of lines, one edit per changed line
+  function formatLines(content: string, range?: DiskRange): TextEdit[] {
+    const lines = content.split('\n')
+    const first = range?.start.line ?? 0
+    const last = range ? Math.max(range.end.line - 1, first) : lines.length - 1
+    const edits: TextEdit[] = []
+    for (let line = first; line <= last; line++) {
+      const text = lines[line] ?? ''
+      const formatted = text.replace(/\s*=\s*/g, ' = ')
+      if (formatted !== text) {
+        edits.push({
+          range: {
+            start: { line, character: 0 },
+            end: { line, character: text.length },
+          },
+          newText: formatted,
+        })
+      }
+    }
+    return edits
+  }
+
+  function setup(
+    options: {
+      formatOnEdit?: boolean
+      rangeFormatting?: boolean
+      userInteraction?: boolean
+    } = {},
+  ) {
+    const files: Record<string, string> = {
+      [uri]: 'let a = 1\nlet b=2\nlet c=3',
+    }
     const server = createMockServer()
+    const formatting: FormattingProvider = {
+      provideDocumentFormatting: vi.fn(async (_uri, content) =>
+        formatLines(content),
+      ),
+      ...(options.rangeFormatting !== false && {
+        provideRangeFormatting: vi.fn(async (_uri, content, range) =>
+          formatLines(content, range),
+        ),
+      }),
+    }
+    const userInteraction: UserInteractionProvider = {
+      previewAndApplyEdits: vi.fn(async (operation) => {
+        const { uri, edits } = operation as PendingEditOperation
+        files[uri] = applyTextEdits(files[uri] ?? '', edits)
+        return true
+      }),
+    }
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess({}), // No files, readFile will fail
+      fileAccess: createMockFileAccess(files),
+      formatting,
+      ...(options.userInteraction !== false && { userInteraction }),
     }
-
-    const { success } = installMcpLspDriver({ server, capabilities })
+    const { success } = installMcpLspDriver({
+      server,
+      capabilities,
+      config: { formatOnEdit: options.formatOnEdit ?? false },
+    })
     expect(success).toBeTruthy()
+    return { server, files, formatting, userInteraction }
+  }
 
+  it('should format a whole file after user approval', async () => {
+    const { server, files, userInteraction } = setup()
     const client = await createAndConnectMockClient(server)
-    const r = await client.readResource({ uri: 'lsp://files/src' })
-    expect(r.contents).toHaveLength(1)
-    expect(r.contents[0]).toStrictEqual({
-      mimeType: 'application/json',
-      text: '["file1.ts","file2.ts","subdir"]',
-      uri: 'lsp://files/src',
+
+    const r = await client.callTool({
+      name: 'format_document',
+      arguments: { uri },
     })
+
+    expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledWith(
+      expect.objectContaining({ uri, description: 'Format document' }),
+    )
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      message: 'Formatting applied (2 edit(s)).',
+      version: computeContentVersion('let a = 1\nlet b = 2\nlet c = 3'),
+    })
+    expect(files[uri]).toBe('let a = 1\nlet b = 2\nlet c = 3')
   })
-})
 
-describe('global find and replace tools', () => {
-  it('should register global_find tool when globalFind provider is available', () => {
-    const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider()
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
-    }
+  it('should format a range of lines', async () => {
+    const { server, files, formatting } = setup()
+    const client = await createAndConnectMockClient(server)
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    await client.callTool({
+      name: 'format_document',
+      arguments: { uri, start_line: 2 },
+    })
+
+    expect(formatting.provideRangeFormatting).toHaveBeenCalledWith(
+      uri,
+      'let a = 1\nlet b=2\nlet c=3',
+      { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } },
+    )
+    expect(files[uri]).toBe('let a = 1\nlet b = 2\nlet c=3')
   })
 
-  it('should register global_find tool and return formatted results', async () => {
-    const server = createMockServer()
-    const matches: GlobalFindMatch[] = [
-      {
-        uri: 'file:///src/index.ts',
-        line: 10,
-        column: 5,
-        matchText: 'searchTerm',
-        context: 'const searchTerm = "value"',
-      },
-      {
-        uri: 'file:///src/utils.ts',
-        line: 25,
-        column: 12,
-        matchText: 'searchTerm',
-        context: 'function searchTerm() {}',
-      },
-    ]
-    const globalFindProvider = createMockGlobalFindProvider(matches)
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
-    }
+  it('should report files that are already formatted', async () => {
+    const { server, userInteraction } = setup()
+    const client = await createAndConnectMockClient(server)
+
+    const r = await client.callTool({
+      name: 'format_document',
+      arguments: { uri, start_line: 1 },
+    })
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    expect(userInteraction.previewAndApplyEdits).not.toHaveBeenCalled()
+    expect(r.structuredContent).toStrictEqual({
+      success: true,
+      message: 'File is already formatted.',
+    })
+  })
 
+  it('should refuse ranges when the formatter only formats whole files', async () => {
+    const { server } = setup({ rangeFormatting: false })
     const client = await createAndConnectMockClient(server)
+
     const r = await client.callTool({
-      name: 'global_find',
-      arguments: {
-        query: 'searchTerm',
-        case_sensitive: true,
-        exact_match: false,
-        regex_mode: false,
-      },
+      name: 'format_document',
+      arguments: { uri, start_line: 2 },
     })
+
+    expect(r.isError).toBeTruthy()
     expect(r.structuredContent).toStrictEqual({
-      matches: [
-        {
-          uri: 'file:///src/index.ts',
-          line: 10,
-          column: 5,
-          matchText: 'searchTerm',
-          context: 'const searchTerm = "value"',
-        },
-        {
-          uri: 'file:///src/utils.ts',
-          line: 25,
-          column: 12,
-          matchText: 'searchTerm',
-          context: 'function searchTerm() {}',
-        },
-      ],
-      count: 2,
+      success: false,
+      message:
+        'Error: The formatter can only format whole files; omit start_line.',
+      reason: 'ValidationFailed',
     })
   })
 
-  it('should handle global_find with no matches', async () => {
-    const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider([])
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
-    }
+  it('should format the edited range before apply_edit shows its preview', async () => {
+    const { server, files, formatting, userInteraction } = setup({
+      formatOnEdit: true,
+    })
+    const client = await createAndConnectMockClient(server)
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri,
+        search_text: 'let a = 1',
+        replace_text: 'let x=10',
+        description: 'Rename a',
+      },
+    })
+
+    expect(formatting.provideRangeFormatting).toHaveBeenCalledWith(
+      uri,
+      'let x=10\nlet b=2\nlet c=3',
+      { start: { line: 0, character: 0 }, end: { line: 0, character: 8 } },
+    )
+    expect(userInteraction.previewAndApplyEdits).toHaveBeenCalledWith(
+      expect.objectContaining({
+        edits: [
+          {
+            range: {
+              start: { line: 0, character: 4 },
+              end: { line: 0, character: 9 },
+            },
+            newText: 'x = 10',
+          },
+        ],
+      }),
+    )
+    expect(files[uri]).toBe('let x = 10\nlet b=2\nlet c=3')
+  })
 
+  it('should apply the edit unformatted when the formatter fails', async () => {
+    const { server, files, formatting } = setup({ formatOnEdit: true })
+    vi.mocked(formatting.provideRangeFormatting)
+      ?.mockRejectedValueOnce(new Error('Formatter crashed'))
+      .mockResolvedValueOnce([
+        {
+          range: {
+            start: { line: 1, character: 5 },
+            end: { line: 1, character: 8 },
+          },
+          newText: ' = ',
+        },
+        {
+          range: {
+            start: { line: 1, character: 6 },
+            end: { line: 1, character: 7 },
+          },
+          newText: '= ',
+        },
+      ])
     const client = await createAndConnectMockClient(server)
-    const r = await client.callTool({
-      name: 'global_find',
+
+    const crashed = await client.callTool({
+      name: 'apply_edit',
       arguments: {
-        query: 'nonexistent',
+        uri,
+        search_text: 'let a = 1',
+        replace_text: 'let x=10',
+        description: 'Rename a',
       },
     })
-    expect(r.structuredContent).toStrictEqual({
-      matches: [],
-      count: 0,
+    const overlapping = await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri,
+        search_text: 'let b=2',
+        replace_text: 'let y=20',
+        description: 'Rename b',
+      },
+    })
+
+    expect(crashed.structuredContent).toMatchObject({
+      success: true,
+      message:
+        'Edit successfully applied and saved. Formatting was skipped: Formatter crashed',
+    })
+    expect(overlapping.structuredContent).toMatchObject({
+      success: true,
+      message:
+        'Edit successfully applied and saved. Formatting was skipped: The formatter returned overlapping edits.',
     })
+    expect(files[uri]).toBe('let x=10\nlet y=20\nlet c=3')
   })
 
-  it('should register global_replace tool when globalFind provider is available', () => {
-    const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider()
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
-    }
+  it('should leave apply_edit unformatted by default', async () => {
+    const { server, files, formatting } = setup()
+    const client = await createAndConnectMockClient(server)
 
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+    await client.callTool({
+      name: 'apply_edit',
+      arguments: {
+        uri,
+        search_text: 'let a = 1',
+        replace_text: 'let x=10',
+        description: 'Rename a',
+      },
+    })
+
+    expect(formatting.provideRangeFormatting).not.toHaveBeenCalled()
+    expect(files[uri]).toBe('let x=10\nlet b=2\nlet c=3')
   })
+})
 
-  it('should register global_replace tool and return replacement count', async () => {
+describe('get_signature_help tool', () => {
+  const uri = 'file:///src/app.ts'
+  const files = { [uri]: "const text = await readFile('a.txt', )" }
+
+  async function setup(help: SignatureHelp | null) {
     const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider([], 5)
+    const signatureHelp: SignatureHelpProvider = {
+      provideSignatureHelp: vi.fn(async () => help),
+    }
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
+      fileAccess: createMockFileAccess(files),
+      signatureHelp,
     }
-
     const { success } = installMcpLspDriver({ server, capabilities })
     expect(success).toBeTruthy()
+    return { signatureHelp, client: await createAndConnectMockClient(server) }
+  }
+
+  it('should return the signatures at a position inside the parentheses', async () => {
+    const { signatureHelp, client } = await setup({
+      signatures: [
+        {
+          label: 'readFile(path: string): Promise<Buffer>',
+          parameters: [{ label: 'path: string' }],
+        },
+        {
+          label: 'readFile(path: string, encoding: string): Promise<string>',
+          documentation: 'Reads a file as text.',
+          parameters: [
+            { label: 'path: string', documentation: 'The file to read' },
+            { label: 'encoding: string' },
+          ],
+          activeParameter: 1,
+        },
+      ],
+      activeSignature: 1,
+      activeParameter: 1,
+    })
 
-    const client = await createAndConnectMockClient(server)
     const r = await client.callTool({
-      name: 'global_replace',
-      arguments: {
-        query: 'oldName',
-        replace_with: 'newName',
-        case_sensitive: true,
-        exact_match: true,
-        regex_mode: false,
-      },
+      name: 'get_signature_help',
+      arguments: { uri, symbol_name: ')', line_hint: 1 },
+    })
+
+    expect(signatureHelp.provideSignatureHelp).toHaveBeenCalledWith(uri, {
+      line: 0,
+      character: 37,
     })
     expect(r.structuredContent).toStrictEqual({
-      success: true,
-      count: 5,
+      signatureHelp: {
+        signatures: [
+          {
+            label: 'readFile(path: string): Promise<Buffer>',
+            parameters: [{ label: 'path: string' }],
+          },
+          {
+            label: 'readFile(path: string, encoding: string): Promise<string>',
+            documentation: 'Reads a file as text.',
+            parameters: [
+              { label: 'path: string', documentation: 'The file to read' },
+              { label: 'encoding: string' },
+            ],
+            activeParameter: 1,
+          },
+        ],
+        activeSignature: 1,
+        activeParameter: 1,
+      },
     })
   })
 
-  it('should handle global_replace with singular occurrence message', async () => {
+  it('should return null outside of a call', async () => {
+    const { client } = await setup(null)
+
+    const r = await client.callTool({
+      name: 'get_signature_help',
+      arguments: { uri, symbol_name: 'text', line_hint: 1 },
+    })
+
+    expect(r.isError).toBeFalsy()
+    expect(r.structuredContent).toStrictEqual({ signatureHelp: null })
+  })
+})
+
+describe('get_completions tool', () => {
+  const uri = 'file:///src/app.ts'
+  const files = { [uri]: 'const user = await users.find(id)\nuser.' }
+  const completions: CompletionItem[] = [
+    { label: 'name', kind: 'property', detail: 'string', sortText: '1' },
+    { label: 'email', kind: 'property', detail: 'string', sortText: '1' },
+    {
+      label: 'save',
+      kind: 'method',
+      detail: '(): Promise<void>',
+      insertText: 'save()',
+      sortText: '2',
+    },
+    { label: 'id', kind: 'property', detail: 'number', preselect: true },
+  ]
+
+  async function setup() {
     const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider([], 1)
+    const completion: CompletionProvider = {
+      provideCompletions: vi.fn(async () => completions),
+    }
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
+      fileAccess: createMockFileAccess(files),
+      completion,
     }
-
     const { success } = installMcpLspDriver({ server, capabilities })
     expect(success).toBeTruthy()
+    return { completion, client: await createAndConnectMockClient(server) }
+  }
+
+  it('should return ranked completions after the anchor text', async () => {
+    const { completion, client } = await setup()
 
-    const client = await createAndConnectMockClient(server)
     const r = await client.callTool({
-      name: 'global_replace',
-      arguments: {
-        query: 'oldName',
-        replace_with: 'newName',
-      },
+      name: 'get_completions',
+      arguments: { uri, symbol_name: 'user', line_hint: 2, after_text: '.' },
+    })
+
+    expect(completion.provideCompletions).toHaveBeenCalledWith(uri, {
+      line: 1,
+      character: 5,
     })
     expect(r.structuredContent).toStrictEqual({
-      success: true,
-      count: 1,
+      items: [
+        {
+          label: 'id',
+          kind: 'property',
+          detail: 'number',
+          insertText: 'id',
+        },
+        {
+          label: 'email',
+          kind: 'property',
+          detail: 'string',
+          insertText: 'email',
+        },
+        {
+          label: 'name',
+          kind: 'property',
+          detail: 'string',
+          insertText: 'name',
+        },
+        {
+          label: 'save',
+          kind: 'method',
+          detail: '(): Promise<void>',
+          insertText: 'save()',
+        },
+      ],
+      total: 4,
     })
   })
 
-  it('should handle global_replace with zero replacements', async () => {
-    const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider([], 0)
-    const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
-    }
-
-    const { success } = installMcpLspDriver({ server, capabilities })
-    expect(success).toBeTruthy()
+  it('should cap the number of completions', async () => {
+    const { completion, client } = await setup()
 
-    const client = await createAndConnectMockClient(server)
     const r = await client.callTool({
-      name: 'global_replace',
-      arguments: {
-        query: 'nonexistent',
-        replace_with: 'anything',
-      },
+      name: 'get_completions',
+      arguments: { uri, symbol_name: 'users.', line_hint: 1, limit: 1 },
     })
-    expect(r.structuredContent).toStrictEqual({
-      success: true,
-      count: 0,
+
+    expect(completion.provideCompletions).toHaveBeenCalledWith(uri, {
+      line: 0,
+      character: 25,
+    })
+    expect(r.structuredContent).toMatchObject({
+      items: [{ label: 'id' }],
+      total: 4,
     })
   })
+})
 
-  it('should use default values for optional global_find parameters', async () => {
+describe('inlay hints resource', () => {
+  const files = {
+    'src/app.ts':
+      'const total = sum(items)\nconst mean = total / count\nlog(mean)',
+  }
+
+  async function setup() {
     const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider([])
+    const inlayHints: InlayHintsProvider = {
+      provideInlayHints: vi.fn(async () => [
+        { position: { line: 0, character: 11 }, label: ': number' },
+        { position: { line: 0, character: 18 }, label: 'values:' },
+        { position: { line: 1, character: 10 }, label: ': number' },
+      ]),
+    }
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
+      fileAccess: createMockFileAccess(files),
+      inlayHints,
     }
-
     const { success } = installMcpLspDriver({ server, capabilities })
     expect(success).toBeTruthy()
+    return { inlayHints, client: await createAndConnectMockClient(server) }
+  }
 
-    const client = await createAndConnectMockClient(server)
-    await client.callTool({
-      name: 'global_find',
-      arguments: {
-        query: 'test',
-        // Omit optional parameters to test defaults
+  it('should render the hints of the whole file', async () => {
+    const { inlayHints, client } = await setup()
+
+    const r = await client.readResource({ uri: 'lsp://inlay/src/app.ts' })
+
+    expect(inlayHints.provideInlayHints).toHaveBeenCalledWith('src/app.ts', {
+      start: { line: 0, character: 0 },
+      end: { line: 2, character: 9 },
+    })
+    expect(r.contents).toStrictEqual([
+      {
+        uri: 'lsp://inlay/src/app.ts',
+        mimeType: 'text/plain',
+        text: 'const total«: number» = sum(«values:»items)\nconst mean«: number» = total / count\nlog(mean)',
       },
+    ])
+  })
+
+  it('should only request and return the lines in the fragment', async () => {
+    const { inlayHints, client } = await setup()
+
+    const r = await client.readResource({
+      uri: 'lsp://inlay/src/app.ts#L2-L2',
     })
 
-    // Verify the provider was called with default options
-    expect(globalFindProvider.globalFind).toHaveBeenCalledWith('test', {
-      caseSensitive: false,
-      exactMatch: false,
-      regexMode: false,
+    expect(inlayHints.provideInlayHints).toHaveBeenCalledWith('src/app.ts', {
+      start: { line: 1, character: 0 },
+      end: { line: 2, character: 0 },
     })
+    expect(r.contents[0]?.text).toBe('const mean«: number» = total / count')
   })
+})
 
-  it('should use default values for optional global_replace parameters', async () => {
+describe('semantic tokens resource', () => {
+  const content = 'let count = 0\nfunction add(count) {\n  return count + 1\n}'
+
+  it('should return the legend and the classified lines of the fragment', async () => {
     const server = createMockServer()
-    const globalFindProvider = createMockGlobalFindProvider([], 0)
+    const semanticTokens: SemanticTokensProvider = {
+      provideSemanticTokens: vi.fn(async () => [
+        {
+          range: {
+            start: { line: 1, character: 13 },
+            end: { line: 1, character: 18 },
+          },
+          type: 'parameter',
+          modifiers: ['declaration'],
+        },
+        {
+          range: {
+            start: { line: 2, character: 9 },
+            end: { line: 2, character: 14 },
+          },
+          type: 'parameter',
+        },
+      ]),
+    }
     const capabilities: IdeCapabilities = {
-      fileAccess: createMockFileAccess(),
-      globalFind: globalFindProvider,
+      fileAccess: createMockFileAccess({ 'src/math.ts': content }),
+      semanticTokens,
     }
-
     const { success } = installMcpLspDriver({ server, capabilities })
     expect(success).toBeTruthy()
-
     const client = await createAndConnectMockClient(server)
-    await client.callTool({
-      name: 'global_replace',
-      arguments: {
-        query: 'test',
-        replace_with: 'replacement',
-        // Omit optional parameters to test defaults
-      },
+
+    const r = await client.readResource({
+      uri: 'lsp://semantic/src/math.ts#L2-L3',
     })
 
-    // Verify the provider was called with default options
-    expect(globalFindProvider.globalReplace).toHaveBeenCalledWith(
-      'test',
-      'replacement',
+    expect(semanticTokens.provideSemanticTokens).toHaveBeenCalledWith(
+      'src/math.ts',
+      { start: { line: 1, character: 0 }, end: { line: 3, character: 0 } },
+    )
+    expect(r.contents).toStrictEqual([
       {
-        caseSensitive: false,
-        exactMatch: false,
-        regexMode: false,
+        uri: 'lsp://semantic/src/math.ts#L2-L3',
+        mimeType: 'application/json',
+        text: JSON.stringify({
+          legend: { types: ['parameter'], modifiers: ['declaration'] },
+          lines: [
+            {
+              line: 2,
+              text: 'function add(count) {',
+              tokens: [[14, 5, 0, 0]],
+            },
+            { line: 3, text: '  return count + 1', tokens: [[10, 5, 0]] },
+          ],
+        }),
+        _meta: { version: computeContentVersion(content) },
       },
-    )
+    ])
   })
 })
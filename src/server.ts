@@ -10,14 +10,35 @@ import {
   ResourceTemplate,
 } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
-import type { IdeCapabilities } from './capabilities.js'
+import { FileContentCache } from './cache.js'
+import type { FormattingProvider, IdeCapabilities } from './capabilities.js'
 import {
+  DiagnosticsChangeEmitter,
+  diffDiagnostics,
+  summarizeDiagnostic,
+} from './diagnostics.js'
+import {
+  applyTextEdits,
+  diffToTextEdit,
+  editsByFile,
+  findOverlappingEdits,
+  invertTextEdits,
+} from './edits.js'
+import {
+  computeContentVersion,
   formatDiagnosticsAsMarkdown,
+  formatEditHistoryAsMarkdown,
+  formatSemanticTokens,
   formatSymbolsAsMarkdown,
   generateEditId,
   makeToolResult,
   normalizeUri,
+  renderInlayHints,
 } from './formatting.js'
+import { buildCallTree, locateCallHierarchyItem } from './hierarchy.js'
+import type { UserInteractionProvider } from './interfaces.js'
+import { EditJournal, type FileSnapshot } from './journal.js'
+import { offsetToPosition } from './positions.js'
 
 /**
  * Parses a line range fragment from a URI (e.g., "#L21" or "#L21-L28").
@@ -40,6 +61,43 @@ function parseLineRange(
   return { start, end }
 }
 
+/**
+ * Splits a resource path into the path and its fragment (e.g., "L21-L28").
+ */
+function splitFragment(pathWithFragment: string): {
+  path: string
+  fragment: string | undefined
+} {
+  const hashIndex = pathWithFragment.indexOf('#')
+  if (hashIndex === -1) {
+    return { path: pathWithFragment, fragment: undefined }
+  }
+  return {
+    path: pathWithFragment.slice(0, hashIndex),
+    fragment: pathWithFragment.slice(hashIndex + 1),
+  }
+}
+
+/**
+ * Converts a 1-based line range to the range of the file it covers, or the
+ * whole file if there is no line range.
+ */
+function toFileRange(
+  content: string,
+  lineRange: { start: number; end: number } | null,
+  encoding: PositionEncoding,
+): DiskRange {
+  const fileEnd = offsetToPosition(content, content.length, encoding)
+  // Exclusive end: the start of the line after the range
+  return {
+    start: { line: lineRange ? lineRange.start - 1 : 0, character: 0 },
+    end:
+      lineRange && lineRange.end <= fileEnd.line
+        ? { line: lineRange.end, character: 0 }
+        : fileEnd,
+  }
+}
+
 /**
  * Extracts lines from content based on a line range.
  * @param content - The full file content
@@ -57,24 +115,364 @@ function extractLines(
   return lines.slice(startIdx, endIdx).join('\n')
 }
 
+/**
+ * Builds the fuzzy position of a tool call's position parameters.
+ * symbol_path is absent when the tool was registered without it.
+ */
+function toFuzzyPosition(params: {
+  symbol_name: string
+  line_hint?: number
+  order_hint?: number
+  symbol_path?: string
+}): FuzzyPosition {
+  return {
+    symbolName: params.symbol_name,
+    lineHint: params.line_hint,
+    orderHint: params.order_hint,
+    symbolPath: params.symbol_path,
+  }
+}
+
+/**
+ * Wraps a workspace edit in a pending operation for user approval.
+ * Single-file text edits use the simpler PendingEditOperation shape.
+ */
+function toPendingOperation(
+  edit: WorkspaceEdit,
+  description: string,
+): PendingEditOperation | PendingWorkspaceEditOperation {
+  const entries = Object.entries(edit.changes).filter(
+    ([, edits]) => edits.length > 0,
+  )
+  const [single] = entries
+  if (entries.length === 1 && single && !edit.fileOperations?.length) {
+    const [uri, edits] = single
+    return { id: generateEditId(), uri, edits, description }
+  }
+  return { id: generateEditId(), edit, description }
+}
+
+/**
+ * Checks that a file still has the content version the agent last read.
+ * @returns A failed EditResult if the file has changed, or null if it matches
+ */
+async function checkContentVersion(
+  capabilities: IdeCapabilities,
+  uri: string,
+  expectedVersion: string | undefined,
+): Promise<EditResult | null> {
+  if (expectedVersion === undefined) return null
+  return compareContentVersion(
+    await capabilities.fileAccess.readFile(uri),
+    expectedVersion,
+  )
+}
+
+/**
+ * Checks that file content has the version the agent last read. Edits are
+ * matched against the same content, so that the file cannot change between
+ * the check and the match.
+ * @returns A failed EditResult if the content differs, or null if it matches
+ */
+function compareContentVersion(
+  content: string,
+  expectedVersion: string | undefined,
+): EditResult | null {
+  if (expectedVersion === undefined) return null
+
+  const currentVersion = computeContentVersion(content)
+  if (currentVersion === expectedVersion) return null
+
+  return {
+    success: false,
+    reason: 'ValidationFailed',
+    message: `File has changed since version ${expectedVersion} was read (current version: ${currentVersion}). Re-read the file and retry.`,
+  }
+}
+
+/**
+ * Reads the content version of a file after an edit, if it can be read.
+ */
+async function readContentVersion(
+  capabilities: IdeCapabilities,
+  uri: string,
+): Promise<string | undefined> {
+  return capabilities.fileAccess
+    .readFile(uri)
+    .then(computeContentVersion, () => undefined)
+}
+
+/**
+ * Captures the diagnostics of a file before an edit, and starts watching
+ * for the refresh the edit causes. The watch starts before the edit is
+ * previewed, so that a refresh published while the edit is being applied is
+ * not missed.
+ *
+ * @returns collect(), which once the edit is applied waits for the IDE to
+ * refresh the file's diagnostics (up to timeoutMs) and reports what changed,
+ * and dispose(), which stops watching if the edit is not applied; or
+ * undefined if the IDE provides no diagnostics
+ */
+async function captureDiagnostics(
+  capabilities: IdeCapabilities,
+  diagnosticsEvents: DiagnosticsChangeEmitter,
+  uri: string,
+  timeoutMs: number,
+): Promise<
+  { collect(): Promise<DiagnosticsChange>; dispose(): void } | undefined
+> {
+  const diagnosticsProvider = capabilities.diagnostics
+  if (!diagnosticsProvider) return undefined
+
+  const before = await diagnosticsProvider.provideDiagnostics(uri)
+  const watcher = capabilities.onDiagnosticsChanged
+    ? diagnosticsEvents.watch(uri)
+    : undefined
+
+  return {
+    collect: async () => {
+      try {
+        const refreshed = (await watcher?.wait(timeoutMs)) ?? false
+        const after = await diagnosticsProvider.provideDiagnostics(uri)
+        const { introduced, resolved } = diffDiagnostics(before, after)
+        return {
+          introduced: introduced.map(summarizeDiagnostic),
+          resolved: resolved.map(summarizeDiagnostic),
+          refreshed,
+        }
+      } finally {
+        watcher?.dispose()
+      }
+    },
+    dispose: () => watcher?.dispose(),
+  }
+}
+
+/**
+ * Requests user approval for an operation. Approved operations are recorded
+ * in the edit journal, with the content of the edited files read before the
+ * preview and after the operation was applied, so that undo never restores
+ * text that changed while the user was reviewing the operation.
+ *
+ * @param undoOf - ID of the journal entry the operation reverts, if any
+ */
+async function approveAndRecord(
+  capabilities: IdeCapabilities,
+  userInteraction: UserInteractionProvider,
+  journal: EditJournal,
+  operation: PendingEditOperation | PendingWorkspaceEditOperation,
+  undoOf?: string,
+): Promise<boolean> {
+  const isWorkspaceEdit = 'edit' in operation
+  if (isWorkspaceEdit && !userInteraction.previewAndApplyWorkspaceEdit) {
+    throw new EditValidationError(
+      'The IDE cannot apply changes to several files or file operations.',
+    )
+  }
+
+  // Files created, renamed or deleted by the operation cannot be read
+  // beforehand; such operations are journaled as irreversible
+  const hasFileOperations =
+    isWorkspaceEdit && !!operation.edit.fileOperations?.length
+  const uris = hasFileOperations
+    ? []
+    : editsByFile(operation).map(([uri]) => uri)
+  const contentsBefore = await Promise.all(
+    uris.map((uri) => capabilities.fileAccess.readFile(uri)),
+  )
+
+  const approved = isWorkspaceEdit
+    ? await userInteraction.previewAndApplyWorkspaceEdit?.(operation)
+    : await userInteraction.previewAndApplyEdits(operation)
+  if (!approved) return false
+
+  const snapshots = new Map<UnifiedUri, FileSnapshot>()
+  for (const [index, uri] of uris.entries()) {
+    snapshots.set(uri, {
+      before: contentsBefore[index] as string,
+      after: await capabilities.fileAccess.readFile(uri),
+    })
+  }
+  journal.record(operation, snapshots, undoOf)
+  return true
+}
+
+/**
+ * Lists the files a workspace edit edits, renames or deletes.
+ */
+function touchedFiles(edit: WorkspaceEdit): UnifiedUri[] {
+  const uris = new Set(summarizeFileEdits(edit).map(({ uri }) => uri))
+  for (const operation of edit.fileOperations ?? []) {
+    if (operation.kind === 'rename') uris.add(operation.oldUri)
+    if (operation.kind === 'delete') uris.add(operation.uri)
+  }
+  return [...uris]
+}
+
+/**
+ * Summarizes the number of text edits per file in a workspace edit.
+ */
+function summarizeFileEdits(edit: WorkspaceEdit): FileEditSummary[] {
+  return Object.entries(edit.changes)
+    .filter(([, edits]) => edits.length > 0)
+    .map(([uri, edits]) => ({ uri, editCount: edits.length }))
+}
+
 import {
   type ResolverConfig,
   SymbolResolutionError,
   SymbolResolver,
+  TextSearchError,
 } from './resolver.js'
 import {
+  ApplyCodeActionSchema,
   ApplyEditSchema,
+  ApplyMultiEditSchema,
+  ApplyWorkspaceEditSchema,
   CallHierarchySchema,
+  FindWorkspaceSymbolsSchema,
+  FormatDocumentSchema,
   FuzzyPositionSchema,
+  GetCompletionsSchema,
   GlobalFindSchema,
   GlobalReplaceSchema,
+  ListCodeActionsSchema,
+  RenameSymbolSchema,
+  TypeHierarchySchema,
+  UndoEditSchema,
+  withoutSymbolPath,
 } from './schemas.js'
 import type {
+  CodeAction,
+  CodeSnippet,
+  DiagnosticsChange,
+  DiskRange,
   EditResult,
+  ExactPosition,
+  FileEditSummary,
+  FileOperation,
   FuzzyPosition,
   PendingEditOperation,
+  PendingWorkspaceEditOperation,
+  PositionEncoding,
+  TextEdit,
+  UnifiedUri,
+  WorkspaceEdit,
 } from './types.js'
 
+/**
+ * Error thrown when a requested edit is rejected by the driver's own checks
+ * (e.g., overlapping edits) before it is shown to the user.
+ */
+class EditValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EditValidationError'
+  }
+}
+
+const diagnosticSummarySchema = z.object({
+  line: z.number(),
+  severity: z.enum(['error', 'warning', 'information', 'hint']),
+  message: z.string(),
+  source: z.string().optional(),
+  code: z.union([z.string(), z.number()]).optional(),
+})
+
+/**
+ * Output schema shared by the edit tools, mirroring EditResult.
+ */
+const editResultOutputSchema = {
+  success: z.boolean(),
+  message: z.string(),
+  reason: z
+    .enum([
+      'UserRejected',
+      'IOError',
+      'ValidationFailed',
+      'NotFound',
+      'Ambiguous',
+    ])
+    .optional(),
+  matchCount: z.number().optional(),
+  candidateLines: z.array(z.number()).optional(),
+  version: z.string().optional(),
+  files: z
+    .array(z.object({ uri: z.string(), editCount: z.number() }))
+    .optional(),
+  diagnostics: z
+    .object({
+      introduced: z.array(diagnosticSummarySchema),
+      resolved: z.array(diagnosticSummarySchema),
+      refreshed: z.boolean(),
+    })
+    .optional(),
+}
+
+/**
+ * Converts an error thrown while preparing or applying an edit into a failed
+ * tool result with a structured EditFailureReason.
+ *
+ * @param prefix - Optional context prepended to the message (e.g., "Hunk 2: ")
+ */
+function makeEditErrorResult(error: unknown, prefix = '') {
+  let result: EditResult
+  if (error instanceof TextSearchError) {
+    result = {
+      success: false,
+      message: `Error: ${prefix}${error.message}`,
+      reason: error.reason,
+      matchCount: error.matchCount,
+      ...(error.reason === 'Ambiguous' && {
+        candidateLines: error.candidateLines,
+      }),
+    }
+  } else if (error instanceof SymbolResolutionError) {
+    result = {
+      success: false,
+      message: error.message,
+      reason: 'NotFound',
+      ...(error.candidates.length > 0 && {
+        candidateLines: error.candidates.map((candidate) => candidate.line),
+      }),
+    }
+  } else {
+    result = {
+      success: false,
+      message: `Error: ${prefix}${error instanceof Error ? error.message : String(error)}`,
+      reason:
+        error instanceof EditValidationError ? 'ValidationFailed' : 'IOError',
+    }
+  }
+
+  return {
+    content: [{ type: 'text' as const, text: result.message }],
+    structuredContent: result,
+    isError: true,
+  }
+}
+
+/**
+ * Converts an error thrown while resolving a symbol or querying the IDE into
+ * a failed tool result. Resolution failures carry the candidate locations
+ * of the symbol so the LLM can retry with a better hint.
+ */
+function makeResolutionErrorResult(error: unknown) {
+  const message =
+    error instanceof SymbolResolutionError
+      ? error.message
+      : `Error: ${error instanceof Error ? error.message : String(error)}`
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    structuredContent: {
+      error: message,
+      ...(error instanceof SymbolResolutionError &&
+        error.candidates.length > 0 && { candidates: error.candidates }),
+    },
+    isError: true,
+  }
+}
+
 // ============================================================================
 // McpLspDriver Class
 // ============================================================================
@@ -85,6 +483,33 @@ import type {
 export interface McpLspDriverConfig {
   /** Configuration for the symbol resolver */
   resolverConfig?: ResolverConfig
+
+  /**
+   * How long edit tools wait for refreshed diagnostics when called with
+   * wait_for_diagnostics, in milliseconds. Defaults to 3000.
+   */
+  diagnosticsTimeoutMs?: number
+
+  /**
+   * How the character of every ExactPosition exchanged with the IDE is
+   * counted. Must match the encoding the IDE's language servers use.
+   * Takes precedence over resolverConfig.positionEncoding.
+   * Defaults to 'utf-16', the LSP default.
+   */
+  positionEncoding?: PositionEncoding
+
+  /**
+   * Maximum number of files whose content is cached between tool calls.
+   * Caching requires FileAccessProvider.stat; 0 disables it. Defaults to 50.
+   */
+  fileCacheSize?: number
+
+  /**
+   * Whether apply_edit formats the text it inserts before showing the edit
+   * for approval. Requires FormattingProvider.provideRangeFormatting.
+   * Defaults to false.
+   */
+  formatOnEdit?: boolean
 }
 
 /**
@@ -92,20 +517,53 @@ export interface McpLspDriverConfig {
  */
 export function installMcpLspDriver({
   server,
-  capabilities,
+  capabilities: ideCapabilities,
   config,
 }: {
   server: McpServer
   capabilities: IdeCapabilities
   config?: McpLspDriverConfig
 }) {
+  // Share file contents between the resolver, resources and edit tools
+  const fileCache = new FileContentCache(
+    ideCapabilities.fileAccess,
+    config?.fileCacheSize,
+  )
+  // Entries are keyed by the normalized URIs the tools and resources read
+  ideCapabilities.fileAccess.onFileChanged?.((uri) =>
+    fileCache.invalidate(normalizeUri(uri)),
+  )
+  const capabilities: IdeCapabilities = {
+    ...ideCapabilities,
+    fileAccess: fileCache,
+  }
+
+  const positionEncoding =
+    config?.positionEncoding ??
+    config?.resolverConfig?.positionEncoding ??
+    'utf-16'
   const resolver = new SymbolResolver(
     capabilities.fileAccess,
-    config?.resolverConfig,
+    { ...config?.resolverConfig, positionEncoding },
+    capabilities.outline,
   )
 
+  // Register with the IDE once and fan out to resources and edit tools
+  const diagnosticsEvents = new DiagnosticsChangeEmitter()
+  capabilities.onDiagnosticsChanged?.((uri) => diagnosticsEvents.emit(uri))
+
+  const journal = new EditJournal(positionEncoding)
+
   try {
-    registerTools(server, capabilities, resolver)
+    registerTools(
+      server,
+      capabilities,
+      resolver,
+      diagnosticsEvents,
+      journal,
+      positionEncoding,
+      config,
+    )
   } catch (error) {
     return {
       success: false,
@@ -115,7 +573,13 @@ export function installMcpLspDriver({
   }
 
   try {
-    registerResources(server, capabilities)
+    registerResources(
+      server,
+      capabilities,
+      diagnosticsEvents,
+      journal,
+      positionEncoding,
+    )
   } catch (error) {
     return {
       success: false,
@@ -133,37 +597,118 @@ function registerTools(
   server: McpServer,
   capabilities: IdeCapabilities,
   resolver: SymbolResolver,
+  diagnosticsEvents: DiagnosticsChangeEmitter,
+  journal: EditJournal,
+  positionEncoding: PositionEncoding,
+  config?: McpLspDriverConfig,
 ): void {
   if (capabilities.definition) {
     registerGotoDefinitionTool(server, capabilities, resolver)
   }
 
+  if (capabilities.typeDefinition) {
+    registerGotoTypeDefinitionTool(server, capabilities, resolver)
+  }
+
+  if (capabilities.implementation) {
+    registerGotoImplementationTool(server, capabilities, resolver)
+  }
+
   if (capabilities.references) {
     registerFindReferencesTool(server, capabilities, resolver)
   }
 
+  if (capabilities.hover) {
+    registerGetHoverTool(server, capabilities, resolver)
+  }
+
+  if (capabilities.signatureHelp) {
+    registerGetSignatureHelpTool(server, capabilities, resolver)
+  }
+
+  if (capabilities.completion) {
+    registerGetCompletionsTool(server, capabilities, resolver)
+  }
+
   if (capabilities.hierarchy) {
     registerCallHierarchyTool(server, capabilities, resolver)
   }
 
+  if (capabilities.typeHierarchy) {
+    registerTypeHierarchyTool(server, capabilities, resolver)
+  }
+
   if (capabilities.userInteraction) {
-    registerApplyEditTool(server, capabilities, resolver)
+    const diagnosticsTimeoutMs = config?.diagnosticsTimeoutMs ?? 3000
+    registerApplyEditTool(
+      server,
+      capabilities,
+      resolver,
+      diagnosticsEvents,
+      journal,
+      diagnosticsTimeoutMs,
+      config?.formatOnEdit ? capabilities.formatting : undefined,
+      positionEncoding,
+    )
+    registerApplyMultiEditTool(
+      server,
+      capabilities,
+      resolver,
+      diagnosticsEvents,
+      journal,
+      diagnosticsTimeoutMs,
+    )
+    if (capabilities.userInteraction.previewAndApplyWorkspaceEdit) {
+      registerApplyWorkspaceEditTool(server, capabilities, resolver, journal)
+    }
+    registerUndoEditTool(server, capabilities, journal)
+  }
+
+  if (capabilities.rename && capabilities.userInteraction) {
+    registerRenameSymbolTool(server, capabilities, resolver, journal)
+  }
+
+  if (capabilities.codeActions) {
+    registerCodeActionTools(server, capabilities, journal)
+  }
+
+  if (capabilities.formatting && capabilities.userInteraction) {
+    registerFormatDocumentTool(server, capabilities, journal)
   }
 
   if (capabilities.globalFind) {
     registerGlobalFindTool(server, capabilities)
     registerGlobalReplaceTool(server, capabilities)
   }
+
+  if (capabilities.workspaceSymbols) {
+    registerFindWorkspaceSymbolsTool(server, capabilities)
+  }
 }
 
 function registerResources(
   server: McpServer,
   capabilities: IdeCapabilities,
+  diagnosticsEvents: DiagnosticsChangeEmitter,
+  journal: EditJournal,
+  positionEncoding: PositionEncoding,
 ): void {
   registerFilesystemResource(server, capabilities)
 
+  if (capabilities.inlayHints) {
+    registerInlayHintsResource(server, capabilities, positionEncoding)
+  }
+
+  if (capabilities.semanticTokens) {
+    registerSemanticTokensResource(server, capabilities, positionEncoding)
+  }
+
+  if (capabilities.userInteraction) {
+    registerEditHistoryResource(server, journal)
+  }
+
   if (capabilities.diagnostics) {
-    registerDiagnosticsResources(server, capabilities)
+    registerDiagnosticsResources(server, capabilities, diagnosticsEvents)
   }
 
   if (capabilities.outline) {
@@ -172,21 +717,27 @@ function registerResources(
 }
 
 /**
- * Registers the goto_definition tool.
+ * Registers a tool that resolves a symbol position and returns the code
+ * snippets a provider locates from it.
  */
-function registerGotoDefinitionTool(
+function registerSnippetTool(
   server: McpServer,
   capabilities: IdeCapabilities,
   resolver: SymbolResolver,
+  name: string,
+  description: string,
+  provideSnippets: (
+    uri: UnifiedUri,
+    position: ExactPosition,
+  ) => Promise<CodeSnippet[]>,
 ): void {
-  const definitionProvider = capabilities.definition
-  if (!definitionProvider) return
-
   server.registerTool(
-    'goto_definition',
+    name,
     {
-      description: 'Navigate to the definition of a symbol.',
-      inputSchema: FuzzyPositionSchema,
+      description,
+      inputSchema: capabilities.outline
+        ? FuzzyPositionSchema
+        : withoutSymbolPath(FuzzyPositionSchema),
       outputSchema: {
         snippets: z.array(
           z.object({
@@ -198,41 +749,94 @@ function registerGotoDefinitionTool(
         ),
       },
     },
-    async (params) => {
+    async (params: z.infer<typeof FuzzyPositionSchema>) => {
       try {
         const uri = normalizeUri(params.uri)
-        const fuzzy: FuzzyPosition = {
-          symbolName: params.symbol_name,
-          lineHint: params.line_hint,
-          orderHint: params.order_hint,
-        }
+        const fuzzy = toFuzzyPosition(params)
 
         const exactPosition = await resolver.resolvePosition(uri, fuzzy)
-        const snippets = (
-          await definitionProvider.provideDefinition(uri, exactPosition)
-        ).map((snippet) => ({
-          uri: snippet.uri,
-          startLine: snippet.range.start.line + 1,
-          endLine: snippet.range.end.line + 1,
-          content: snippet.content,
-        }))
+        const snippets = (await provideSnippets(uri, exactPosition)).map(
+          (snippet) => ({
+            uri: snippet.uri,
+            startLine: snippet.range.start.line + 1,
+            endLine: snippet.range.end.line + 1,
+            content: snippet.content,
+          }),
+        )
 
         return makeToolResult({ snippets })
       } catch (error) {
-        const message =
-          error instanceof SymbolResolutionError
-            ? error.message
-            : `Error: ${error instanceof Error ? error.message : String(error)}`
-        return {
-          content: [{ type: 'text' as const, text: message }],
-          structuredContent: { error: message },
-          isError: true,
-        }
+        return makeResolutionErrorResult(error)
       }
     },
   )
 }
 
+/**
+ * Registers the goto_definition tool.
+ */
+function registerGotoDefinitionTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+): void {
+  const definitionProvider = capabilities.definition
+  if (!definitionProvider) return
+
+  registerSnippetTool(
+    server,
+    capabilities,
+    resolver,
+    'goto_definition',
+    'Navigate to the definition of a symbol.',
+    (uri, position) => definitionProvider.provideDefinition(uri, position),
+  )
+}
+
+/**
+ * Registers the goto_type_definition tool.
+ */
+function registerGotoTypeDefinitionTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+): void {
+  const typeDefinitionProvider = capabilities.typeDefinition
+  if (!typeDefinitionProvider) return
+
+  registerSnippetTool(
+    server,
+    capabilities,
+    resolver,
+    'goto_type_definition',
+    'Navigate to the definition of the type of a symbol (e.g., the class of a variable or the return type of a function).',
+    (uri, position) =>
+      typeDefinitionProvider.provideTypeDefinition(uri, position),
+  )
+}
+
+/**
+ * Registers the goto_implementation tool.
+ */
+function registerGotoImplementationTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+): void {
+  const implementationProvider = capabilities.implementation
+  if (!implementationProvider) return
+
+  registerSnippetTool(
+    server,
+    capabilities,
+    resolver,
+    'goto_implementation',
+    'Find the implementations of an interface, abstract class or method. Returns a list of implementation locations.',
+    (uri, position) =>
+      implementationProvider.provideImplementation(uri, position),
+  )
+}
+
 /**
  * Registers the find_references tool.
  */
@@ -244,75 +848,271 @@ function registerFindReferencesTool(
   const referencesProvider = capabilities.references
   if (!referencesProvider) return
 
-  server.registerTool(
+  registerSnippetTool(
+    server,
+    capabilities,
+    resolver,
     'find_references',
+    'Find all references to a symbol. Returns a list of locations where the symbol is used.',
+    (uri, position) => referencesProvider.provideReferences(uri, position),
+  )
+}
+
+/**
+ * Registers the get_hover tool.
+ */
+function registerGetHoverTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+): void {
+  const hoverProvider = capabilities.hover
+  if (!hoverProvider) return
+
+  server.registerTool(
+    'get_hover',
     {
       description:
-        'Find all references to a symbol. Returns a list of locations where the symbol is used.',
-      inputSchema: FuzzyPositionSchema,
+        'Get hover information (type signature, documentation) for a symbol.',
+      inputSchema: capabilities.outline
+        ? FuzzyPositionSchema
+        : withoutSymbolPath(FuzzyPositionSchema),
       outputSchema: {
-        snippets: z.array(
-          z.object({
-            uri: z.string(),
-            startLine: z.number(),
-            endLine: z.number(),
-            content: z.string(),
-          }),
-        ),
+        hover: z
+          .object({
+            contents: z.string(),
+            kind: z.enum(['markdown', 'plaintext']),
+            startLine: z.number().optional(),
+            endLine: z.number().optional(),
+          })
+          .nullable(),
       },
     },
-    async (params) => {
+    async (params: z.infer<typeof FuzzyPositionSchema>) => {
       try {
         const uri = normalizeUri(params.uri)
-        const fuzzy: FuzzyPosition = {
-          symbolName: params.symbol_name,
-          lineHint: params.line_hint,
-          orderHint: params.order_hint,
-        }
+        const fuzzy = toFuzzyPosition(params)
 
         const exactPosition = await resolver.resolvePosition(uri, fuzzy)
-        const snippets = (
-          await referencesProvider.provideReferences(uri, exactPosition)
-        ).map((snippet) => ({
-          uri: snippet.uri,
-          startLine: snippet.range.start.line + 1,
-          endLine: snippet.range.end.line + 1,
-          content: snippet.content,
-        }))
+        const hover = await hoverProvider.provideHover(uri, exactPosition)
 
-        return makeToolResult({ snippets })
-      } catch (error) {
-        const message =
-          error instanceof SymbolResolutionError
-            ? error.message
-            : `Error: ${error instanceof Error ? error.message : String(error)}`
-        return {
-          content: [{ type: 'text' as const, text: message }],
-          structuredContent: { error: message },
-          isError: true,
+        if (!hover) {
+          return makeToolResult({ hover: null })
         }
+
+        return makeToolResult({
+          hover: {
+            contents: hover.contents,
+            kind: hover.kind,
+            ...(hover.range && {
+              startLine: hover.range.start.line + 1,
+              endLine: hover.range.end.line + 1,
+            }),
+          },
+        })
+      } catch (error) {
+        return makeResolutionErrorResult(error)
       }
     },
   )
 }
 
 /**
- * Registers the call_hierarchy tool.
+ * Registers the get_signature_help tool.
  */
-function registerCallHierarchyTool(
+function registerGetSignatureHelpTool(
   server: McpServer,
   capabilities: IdeCapabilities,
   resolver: SymbolResolver,
 ): void {
-  const hierarchyProvider = capabilities.hierarchy
-  if (!hierarchyProvider) return
+  const signatureHelpProvider = capabilities.signatureHelp
+  if (!signatureHelpProvider) return
 
-  server.registerTool(
+  const parameterSchema = z.object({
+    label: z.string(),
+    documentation: z.string().optional(),
+  })
+
+  server.registerTool(
+    'get_signature_help',
+    {
+      description:
+        'Get the signatures (overloads, parameter types and documentation) of the function called at a position. ' +
+        "Point symbol_name at text inside the call's parentheses, such as an argument or the closing parenthesis.",
+      inputSchema: capabilities.outline
+        ? FuzzyPositionSchema
+        : withoutSymbolPath(FuzzyPositionSchema),
+      outputSchema: {
+        signatureHelp: z
+          .object({
+            signatures: z.array(
+              z.object({
+                label: z.string(),
+                documentation: z.string().optional(),
+                parameters: z.array(parameterSchema),
+                activeParameter: z.number().optional(),
+              }),
+            ),
+            activeSignature: z.number(),
+            activeParameter: z.number(),
+          })
+          .nullable(),
+      },
+    },
+    async (params: z.infer<typeof FuzzyPositionSchema>) => {
+      try {
+        const uri = normalizeUri(params.uri)
+        const fuzzy = toFuzzyPosition(params)
+
+        const exactPosition = await resolver.resolvePosition(uri, fuzzy)
+        const help = await signatureHelpProvider.provideSignatureHelp(
+          uri,
+          exactPosition,
+        )
+
+        if (!help || help.signatures.length === 0) {
+          return makeToolResult({ signatureHelp: null })
+        }
+
+        return makeToolResult({
+          signatureHelp: {
+            signatures: help.signatures.map((signature) => ({
+              label: signature.label,
+              ...(signature.documentation && {
+                documentation: signature.documentation,
+              }),
+              parameters: signature.parameters.map((parameter) => ({
+                label: parameter.label,
+                ...(parameter.documentation && {
+                  documentation: parameter.documentation,
+                }),
+              })),
+              ...(signature.activeParameter !== undefined && {
+                activeParameter: signature.activeParameter,
+              }),
+            })),
+            activeSignature: help.activeSignature,
+            activeParameter: help.activeParameter,
+          },
+        })
+      } catch (error) {
+        return makeResolutionErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Compares strings by code unit, independent of the locale.
+ */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Registers the get_completions tool.
+ */
+function registerGetCompletionsTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+): void {
+  const completionProvider = capabilities.completion
+  if (!completionProvider) return
+
+  server.registerTool(
+    'get_completions',
+    {
+      description:
+        'List the completions the IDE offers right after a symbol (e.g. the members after "user."), ' +
+        'to check which names exist before writing code that uses them.',
+      inputSchema: capabilities.outline
+        ? GetCompletionsSchema
+        : withoutSymbolPath(GetCompletionsSchema),
+      outputSchema: {
+        items: z.array(
+          z.object({
+            label: z.string(),
+            kind: z.string().optional(),
+            detail: z.string().optional(),
+            insertText: z.string(),
+          }),
+        ),
+        total: z.number(),
+      },
+    },
+    async (params: z.infer<typeof GetCompletionsSchema>) => {
+      try {
+        const uri = normalizeUri(params.uri)
+        const fuzzy = toFuzzyPosition(params)
+
+        const exactPosition = await resolver.resolvePositionAfter(
+          uri,
+          fuzzy,
+          params.after_text,
+        )
+        const completions = await completionProvider.provideCompletions(
+          uri,
+          exactPosition,
+        )
+
+        // Rank like an editor's completion list: preselected items first,
+        // then by sortText and label
+        const ranked = [...completions].sort(
+          (a, b) =>
+            Number(b.preselect ?? false) - Number(a.preselect ?? false) ||
+            compareStrings(a.sortText ?? a.label, b.sortText ?? b.label) ||
+            compareStrings(a.label, b.label),
+        )
+
+        const items = ranked.slice(0, params.limit).map((item) => ({
+          label: item.label,
+          ...(item.kind && { kind: item.kind }),
+          ...(item.detail && { detail: item.detail }),
+          insertText: item.insertText ?? item.label,
+        }))
+
+        return makeToolResult({ items, total: completions.length })
+      } catch (error) {
+        return makeResolutionErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Output schema of a node in call_hierarchy's call tree.
+ */
+const CallTreeNodeSchema = z.object({
+  uri: z.string(),
+  name: z.string().optional(),
+  line: z.number(),
+  get calls() {
+    return z.array(CallTreeNodeSchema).optional()
+  },
+  repeated: z.boolean().optional(),
+})
+
+/**
+ * Registers the call_hierarchy tool.
+ */
+function registerCallHierarchyTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+): void {
+  const hierarchyProvider = capabilities.hierarchy
+  if (!hierarchyProvider) return
+
+  server.registerTool(
     'call_hierarchy',
     {
       description:
-        'Get call hierarchy for a function or method. Shows incoming or outgoing calls.',
-      inputSchema: CallHierarchySchema,
+        'Get call hierarchy for a function or method. Shows incoming or outgoing calls. ' +
+        'Set max_depth to walk several levels at once and get the calls as a tree.',
+      inputSchema: capabilities.outline
+        ? CallHierarchySchema
+        : withoutSymbolPath(CallHierarchySchema),
       outputSchema: {
         snippets: z.array(
           z.object({
@@ -322,42 +1122,108 @@ function registerCallHierarchyTool(
             content: z.string(),
           }),
         ),
+        calls: z.array(CallTreeNodeSchema).optional(),
+        truncated: z.boolean().optional(),
       },
     },
-    async (params) => {
+    async (params: z.infer<typeof CallHierarchySchema>) => {
       try {
         const uri = normalizeUri(params.uri)
-        const fuzzy: FuzzyPosition = {
-          symbolName: params.symbol_name,
-          lineHint: params.line_hint,
-          orderHint: params.order_hint,
+        const fuzzy = toFuzzyPosition(params)
+
+        const exactPosition = await resolver.resolvePosition(uri, fuzzy)
+        const items = await hierarchyProvider.provideCallHierarchy(
+          uri,
+          exactPosition,
+          params.direction,
+        )
+        const snippets = items.map((snippet) => ({
+          uri: snippet.uri,
+          startLine: snippet.range.start.line + 1,
+          endLine: snippet.range.end.line + 1,
+          content: snippet.content,
+        }))
+
+        if (params.max_depth === undefined) {
+          return makeToolResult({ snippets })
         }
 
+        const tree = await buildCallTree(
+          hierarchyProvider,
+          { uri, position: exactPosition },
+          params.direction,
+          items,
+          params.max_depth,
+          (item) => locateCallHierarchyItem(resolver, item),
+        )
+        return makeToolResult({
+          snippets,
+          calls: tree.calls,
+          ...(tree.truncated && { truncated: true }),
+        })
+      } catch (error) {
+        return makeResolutionErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Registers the type_hierarchy tool.
+ */
+function registerTypeHierarchyTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+): void {
+  const typeHierarchyProvider = capabilities.typeHierarchy
+  if (!typeHierarchyProvider) return
+
+  server.registerTool(
+    'type_hierarchy',
+    {
+      description:
+        'Get type hierarchy for a class or interface. Shows the types it extends or implements (supertypes), or the types extending or implementing it (subtypes).',
+      inputSchema: capabilities.outline
+        ? TypeHierarchySchema
+        : withoutSymbolPath(TypeHierarchySchema),
+      outputSchema: {
+        types: z.array(
+          z.object({
+            name: z.string(),
+            kind: z.string(),
+            uri: z.string(),
+            startLine: z.number(),
+            endLine: z.number(),
+            content: z.string(),
+          }),
+        ),
+      },
+    },
+    async (params: z.infer<typeof TypeHierarchySchema>) => {
+      try {
+        const uri = normalizeUri(params.uri)
+        const fuzzy = toFuzzyPosition(params)
+
         const exactPosition = await resolver.resolvePosition(uri, fuzzy)
-        const snippets = (
-          await hierarchyProvider.provideCallHierarchy(
+        const types = (
+          await typeHierarchyProvider.provideTypeHierarchy(
             uri,
             exactPosition,
             params.direction,
           )
-        ).map((snippet) => ({
-          uri: snippet.uri,
-          startLine: snippet.range.start.line + 1,
-          endLine: snippet.range.end.line + 1,
-          content: snippet.content,
+        ).map((item) => ({
+          name: item.name,
+          kind: item.kind,
+          uri: item.uri,
+          startLine: item.range.start.line + 1,
+          endLine: item.range.end.line + 1,
+          content: item.content,
         }))
 
-        return makeToolResult({ snippets })
+        return makeToolResult({ types })
       } catch (error) {
-        const message =
-          error instanceof SymbolResolutionError
-            ? error.message
-            : `Error: ${error instanceof Error ? error.message : String(error)}`
-        return {
-          content: [{ type: 'text' as const, text: message }],
-          structuredContent: { error: message },
-          isError: true,
-        }
+        return makeResolutionErrorResult(error)
       }
     },
   )
@@ -371,6 +1237,7 @@ function registerCallHierarchyTool(
 function registerDiagnosticsResources(
   server: McpServer,
   capabilities: IdeCapabilities,
+  diagnosticsEvents: DiagnosticsChangeEmitter,
 ): void {
   const diagnosticsProvider = capabilities.diagnostics
   if (!diagnosticsProvider) return
@@ -495,7 +1362,7 @@ function registerDiagnosticsResources(
 
   // Set up subscription support if onDiagnosticsChanged is provided
   if (capabilities.onDiagnosticsChanged) {
-    capabilities.onDiagnosticsChanged((uri) => {
+    diagnosticsEvents.subscribe((uri) => {
       // Notify MCP clients that the diagnostics resource has been updated
       const normalizedUri = normalizeUri(uri)
       server.server.sendResourceUpdated({
@@ -574,6 +1441,11 @@ function registerApplyEditTool(
   server: McpServer,
   capabilities: IdeCapabilities,
   resolver: SymbolResolver,
+  diagnosticsEvents: DiagnosticsChangeEmitter,
+  journal: EditJournal,
+  diagnosticsTimeoutMs: number,
+  formatting: FormattingProvider | undefined,
+  positionEncoding: PositionEncoding,
 ): void {
   const userInteraction = capabilities.userInteraction
   if (!userInteraction) return
@@ -588,156 +1460,1073 @@ function registerApplyEditTool(
         search_text: ApplyEditSchema.shape.search_text,
         replace_text: ApplyEditSchema.shape.replace_text,
         description: ApplyEditSchema.shape.description,
+        expected_version: ApplyEditSchema.shape.expected_version,
+        wait_for_diagnostics: ApplyEditSchema.shape.wait_for_diagnostics,
+        ignore_whitespace: ApplyEditSchema.shape.ignore_whitespace,
       },
-      outputSchema: {
-        success: z.boolean(),
-        message: z.string(),
-      },
+      outputSchema: editResultOutputSchema,
     },
     async (params) => {
       try {
         const uri = normalizeUri(params.uri)
+        const content = await capabilities.fileAccess.readFile(uri)
+
+        // Reject the edit if the file changed since the agent read it
+        const drift = compareContentVersion(content, params.expected_version)
+        if (drift) {
+          return { ...makeToolResult(drift), isError: true }
+        }
 
         // Validate that the search text exists and is unique
-        const range = await resolver.findExactText(uri, params.search_text)
+        let edit = resolver.resolveTextEditInContent(
+          content,
+          params.search_text,
+          params.replace_text,
+          { ignoreWhitespace: params.ignore_whitespace },
+        )
+        // A failing formatter does not block the edit; it is applied as written
+        let formattingError: string | undefined
+        if (formatting) {
+          try {
+            edit = await formatTextEdit(
+              formatting,
+              uri,
+              content,
+              edit,
+              positionEncoding,
+            )
+          } catch (error) {
+            formattingError =
+              error instanceof Error ? error.message : String(error)
+          }
+        }
 
         // Create pending edit operation
         const operation: PendingEditOperation = {
           id: generateEditId(),
           uri,
-          edits: [
-            {
-              range,
-              newText: params.replace_text,
-            },
-          ],
+          edits: [edit],
           description: params.description,
         }
 
-        // Request user approval
-        const approved = await userInteraction.previewAndApplyEdits(operation)
+        const diagnostics = params.wait_for_diagnostics
+          ? await captureDiagnostics(
+              capabilities,
+              diagnosticsEvents,
+              uri,
+              diagnosticsTimeoutMs,
+            )
+          : undefined
 
-        const result: EditResult = approved
-          ? { success: true, message: 'Edit successfully applied and saved.' }
-          : {
-              success: false,
-              message: 'Edit rejected by user.',
-            }
+        try {
+          // Request user approval
+          const approved = await approveAndRecord(
+            capabilities,
+            userInteraction,
+            journal,
+            operation,
+          )
 
-        return makeToolResult(result)
-      } catch (error) {
-        const message = `Error: ${error instanceof Error ? error.message : String(error)}`
-        return {
-          content: [{ type: 'text' as const, text: message }],
-          structuredContent: {
-            success: false,
-            message,
-          },
-          isError: true,
+          const result: EditResult = approved
+            ? {
+                success: true,
+                message:
+                  formattingError === undefined
+                    ? 'Edit successfully applied and saved.'
+                    : `Edit successfully applied and saved. Formatting was skipped: ${formattingError}`,
+                version: await readContentVersion(capabilities, uri),
+                ...(diagnostics && {
+                  diagnostics: await diagnostics.collect(),
+                }),
+              }
+            : {
+                success: false,
+                message: 'Edit rejected by user.',
+                reason: 'UserRejected',
+              }
+
+          return makeToolResult(result)
+        } finally {
+          // Stops watching if the edit was rejected or failed
+          diagnostics?.dispose()
         }
+      } catch (error) {
+        return makeEditErrorResult(error)
       }
     },
   )
 }
 
 /**
- * Registers the filesystem resource.
- * - lsp://files/path - file tree for a directory (git-ignored files excluded)
- * - lsp://files/path/to/file.ext - read file content
- * - lsp://files/path/to/file.ext#L21 - read specific line
- * - lsp://files/path/to/file.ext#L21-L28 - read line range
+ * Formats the text an edit inserts, as it reads once the edit is applied.
+ *
+ * @returns A single edit against content that both makes the change and
+ * formats it, or the edit unchanged if the formatter only formats whole files
+ * @throws Error if the formatter fails or returns edits that cannot be applied
  */
-function registerFilesystemResource(
+async function formatTextEdit(
+  formatting: FormattingProvider,
+  uri: UnifiedUri,
+  content: string,
+  edit: TextEdit,
+  encoding: PositionEncoding,
+): Promise<TextEdit> {
+  if (!formatting.provideRangeFormatting) return edit
+
+  const edited = applyTextEdits(content, [edit], encoding)
+  // The inverse edit's range covers the inserted text in the edited content
+  const [inserted] = invertTextEdits([edit], [''], encoding)
+  if (!inserted) return edit
+
+  const formatEdits = await formatting.provideRangeFormatting(
+    uri,
+    edited,
+    inserted.range,
+  )
+  if (findOverlappingEdits(formatEdits)) {
+    throw new Error('The formatter returned overlapping edits.')
+  }
+  const formatted = applyTextEdits(edited, formatEdits, encoding)
+  return diffToTextEdit(content, formatted, encoding) ?? edit
+}
+
+/**
+ * Registers the apply_multi_edit tool.
+ */
+function registerApplyMultiEditTool(
   server: McpServer,
   capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+  diagnosticsEvents: DiagnosticsChangeEmitter,
+  journal: EditJournal,
+  diagnosticsTimeoutMs: number,
 ): void {
-  const { readFile, readDirectory, getFileTree } = capabilities.fileAccess
-
-  if (getFileTree !== undefined) {
-    const fileTreeTemplate = new ResourceTemplate('lsp://filetree/{+path}', {
-      list: undefined,
-    })
-
-    server.registerResource(
-      'fileTree',
-      fileTreeTemplate,
-      {
-        description:
-          'Access file tree inside a relative path or use "." for root.',
-      },
-      async (uri, { path }) => ({
-        contents: [
-          {
-            uri: uri.toString(),
-            mimeType: 'application/json',
-            text: JSON.stringify(
-              (await getFileTree(normalizeUri(path as string))) ?? '',
-            ),
-          },
-        ],
-      }),
-    )
-  }
-
-  const filesystemTemplate = new ResourceTemplate('lsp://files/{+path}', {
-    list: undefined, // Cannot enumerate all directories
-  })
+  const userInteraction = capabilities.userInteraction
+  if (!userInteraction) return
 
-  server.registerResource(
-    'filesystem',
-    filesystemTemplate,
+  server.registerTool(
+    'apply_multi_edit',
     {
       description:
-        'Access filesystem resources. For directories: returns children (git-ignored files excluded). ' +
-        'For files: returns file content. Supports line ranges with #L23 or #L23-L30 fragment.',
+        'Apply several search/replace hunks to a single file. All hunks are approved by the user at once.',
+      inputSchema: ApplyMultiEditSchema,
+      outputSchema: editResultOutputSchema,
     },
-    async (uri, variables) => {
-      const uriString = uri.toString()
-
+    async (params) => {
       try {
-        const pathWithFragment = variables.path as string
+        const uri = normalizeUri(params.uri)
+        const content = await capabilities.fileAccess.readFile(uri)
 
-        // Parse fragment for line range (e.g., #L23 or #L23-L30)
-        let fragment: string | undefined
-        let path = pathWithFragment
-        const hashIndex = pathWithFragment.indexOf('#')
-        if (hashIndex !== -1) {
-          fragment = pathWithFragment.slice(hashIndex + 1)
-          path = pathWithFragment.slice(0, hashIndex)
+        // Reject the edit if the file changed since the agent read it
+        const drift = compareContentVersion(content, params.expected_version)
+        if (drift) {
+          return { ...makeToolResult(drift), isError: true }
         }
 
-        const normalizedPath = normalizeUri(path)
-        const lineRange = parseLineRange(fragment)
+        // Validate that every search text exists and is unique
+        const edits: TextEdit[] = []
+        for (const [index, hunk] of params.edits.entries()) {
+          try {
+            edits.push(
+              resolver.resolveTextEditInContent(
+                content,
+                hunk.search_text,
+                hunk.replace_text,
+                { ignoreWhitespace: params.ignore_whitespace },
+              ),
+            )
+          } catch (error) {
+            return makeEditErrorResult(error, `Hunk ${index + 1}: `)
+          }
+        }
 
-        // Try reading as a file first
-        try {
-          const content = await readFile(normalizedPath)
+        const overlap = findOverlappingEdits(edits)
+        if (overlap) {
+          throw new EditValidationError(
+            `Hunks ${edits.indexOf(overlap[0]) + 1} and ${edits.indexOf(overlap[1]) + 1} overlap.`,
+          )
+        }
 
-          // If we have a line range, extract those lines
-          const resultContent = lineRange
-            ? extractLines(content, lineRange)
-            : content
+        // Create a single pending edit operation for all hunks
+        const operation: PendingEditOperation = {
+          id: generateEditId(),
+          uri,
+          edits,
+          description: params.description,
+        }
 
-          return {
-            contents: [
-              {
-                uri: uriString,
-                mimeType: 'text/plain',
-                text: resultContent,
-              },
-            ],
-          }
-        } catch {
-          // File reading failed, try as directory
-          const files = await readDirectory(normalizedPath)
+        const diagnostics = params.wait_for_diagnostics
+          ? await captureDiagnostics(
+              capabilities,
+              diagnosticsEvents,
+              uri,
+              diagnosticsTimeoutMs,
+            )
+          : undefined
 
-          return {
-            contents: [
-              {
-                uri: uriString,
-                mimeType: 'application/json',
-                text: JSON.stringify(files),
-              },
+        try {
+          // Request user approval
+          const approved = await approveAndRecord(
+            capabilities,
+            userInteraction,
+            journal,
+            operation,
+          )
+
+          const result: EditResult = approved
+            ? {
+                success: true,
+                message: `${edits.length} hunk(s) successfully applied and saved.`,
+                version: await readContentVersion(capabilities, uri),
+                ...(diagnostics && {
+                  diagnostics: await diagnostics.collect(),
+                }),
+              }
+            : {
+                success: false,
+                message: 'Edit rejected by user.',
+                reason: 'UserRejected',
+              }
+
+          return makeToolResult(result)
+        } finally {
+          // Stops watching if the edit was rejected or failed
+          diagnostics?.dispose()
+        }
+      } catch (error) {
+        return makeEditErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Registers the apply_workspace_edit tool.
+ */
+function registerApplyWorkspaceEditTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+  journal: EditJournal,
+): void {
+  const userInteraction = capabilities.userInteraction
+  if (!userInteraction) return
+
+  server.registerTool(
+    'apply_workspace_edit',
+    {
+      description:
+        'Apply text edits and file create/rename/delete operations across several files. ' +
+        'All changes are approved or rejected by the user as a single unit.',
+      inputSchema: ApplyWorkspaceEditSchema,
+      outputSchema: editResultOutputSchema,
+    },
+    async (params) => {
+      try {
+        const fileOperations: FileOperation[] = params.file_operations.map(
+          (op) =>
+            op.kind === 'rename'
+              ? {
+                  kind: 'rename',
+                  oldUri: normalizeUri(op.old_uri),
+                  newUri: normalizeUri(op.new_uri),
+                }
+              : { kind: op.kind, uri: normalizeUri(op.uri) },
+        )
+        const changes: Record<string, TextEdit[]> = {}
+
+        params.file_operations.forEach((op, index) => {
+          if (op.kind !== 'create' || !op.content) return
+          // Content is keyed by the URI the new file has after later renames
+          const targetUri = followFileOperations(
+            normalizeUri(op.uri),
+            fileOperations,
+            index + 1,
+          )
+          if (targetUri === null) return
+          changes[targetUri] = [
+            {
+              range: {
+                start: { line: 0, character: 0 },
+                end: { line: 0, character: 0 },
+              },
+              newText: op.content,
+            },
+          ]
+        })
+
+        // Each file is read once, so that its version check and all of its
+        // edits see the same content
+        const contents = new Map<UnifiedUri, string>()
+        for (const edit of params.edits) {
+          const uri = normalizeUri(edit.uri)
+          // Edits are keyed by the URI the file has after file operations
+          const targetUri = followFileOperations(uri, fileOperations)
+          if (targetUri === null) {
+            throw new EditValidationError(
+              `Cannot edit ${uri} because it is being deleted.`,
+            )
+          }
+
+          let content = contents.get(uri)
+          if (content === undefined) {
+            content = await capabilities.fileAccess.readFile(uri)
+            contents.set(uri, content)
+          }
+
+          // Reject the edit if the file changed since the agent read it
+          const drift = compareContentVersion(content, edit.expected_version)
+          if (drift) {
+            return {
+              ...makeToolResult({
+                ...drift,
+                message: `${uri}: ${drift.message}`,
+              }),
+              isError: true,
+            }
+          }
+
+          // Validate that the search text exists and is unique
+          let textEdit: TextEdit
+          try {
+            textEdit = resolver.resolveTextEditInContent(
+              content,
+              edit.search_text,
+              edit.replace_text,
+              { ignoreWhitespace: params.ignore_whitespace },
+            )
+          } catch (error) {
+            return makeEditErrorResult(error, `${uri}: `)
+          }
+
+          const fileEdits = changes[targetUri] ?? []
+          fileEdits.push(textEdit)
+          changes[targetUri] = fileEdits
+        }
+
+        for (const [uri, fileEdits] of Object.entries(changes)) {
+          const overlap = findOverlappingEdits(fileEdits)
+          if (overlap) {
+            throw new EditValidationError(
+              `Edits in ${uri} overlap at lines ${overlap[0].range.start.line + 1} and ${overlap[1].range.start.line + 1}.`,
+            )
+          }
+        }
+
+        if (fileOperations.length === 0 && Object.keys(changes).length === 0) {
+          throw new EditValidationError('No edits or file operations provided.')
+        }
+
+        const workspaceEdit: WorkspaceEdit = {
+          changes,
+          ...(fileOperations.length > 0 && { fileOperations }),
+        }
+        const operation = toPendingOperation(workspaceEdit, params.description)
+        const approved = await approveAndRecord(
+          capabilities,
+          userInteraction,
+          journal,
+          operation,
+        )
+
+        const result: EditResult = approved
+          ? {
+              success: true,
+              message: 'Workspace edit successfully applied and saved.',
+              files: summarizeFileEdits(workspaceEdit),
+            }
+          : {
+              success: false,
+              message: 'Workspace edit rejected by user.',
+              reason: 'UserRejected',
+            }
+
+        return makeToolResult(result)
+      } catch (error) {
+        return makeEditErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Follows a file through a sequence of file operations, including chains
+ * of renames.
+ *
+ * @param from - Index of the first operation that applies to the file
+ * @returns The URI the file has after the operations, or null if it is deleted
+ */
+function followFileOperations(
+  uri: UnifiedUri,
+  operations: FileOperation[],
+  from = 0,
+): UnifiedUri | null {
+  let current = uri
+  for (const op of operations.slice(from)) {
+    if (op.kind === 'rename' && op.oldUri === current) {
+      current = op.newUri
+    } else if (op.kind === 'delete' && op.uri === current) {
+      return null
+    }
+  }
+  return current
+}
+
+/**
+ * Registers the rename_symbol tool.
+ */
+function registerRenameSymbolTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  resolver: SymbolResolver,
+  journal: EditJournal,
+): void {
+  const renameProvider = capabilities.rename
+  const userInteraction = capabilities.userInteraction
+  if (!renameProvider || !userInteraction) return
+
+  server.registerTool(
+    'rename_symbol',
+    {
+      description:
+        'Rename a symbol and all of its references across the workspace. The edits must be approved by the user before being applied.',
+      inputSchema: capabilities.outline
+        ? RenameSymbolSchema
+        : withoutSymbolPath(RenameSymbolSchema),
+      outputSchema: editResultOutputSchema,
+    },
+    async (params: z.infer<typeof RenameSymbolSchema>) => {
+      try {
+        const uri = normalizeUri(params.uri)
+        const fuzzy = toFuzzyPosition(params)
+
+        const exactPosition = await resolver.resolvePosition(uri, fuzzy)
+
+        if (renameProvider.prepareRename) {
+          const renameRange = await renameProvider.prepareRename(
+            uri,
+            exactPosition,
+          )
+          if (!renameRange) {
+            throw new EditValidationError(
+              `Symbol '${params.symbol_name}' cannot be renamed at this position.`,
+            )
+          }
+        }
+
+        const workspaceEdit = await renameProvider.provideRenameEdits(
+          uri,
+          exactPosition,
+          params.new_name,
+        )
+        const fileEdits = Object.entries(workspaceEdit.changes).filter(
+          ([, edits]) => edits.length > 0,
+        )
+
+        if (fileEdits.length === 0) {
+          const result: EditResult = {
+            success: false,
+            message: 'Rename produced no edits.',
+            reason: 'ValidationFailed',
+          }
+          return makeToolResult(result)
+        }
+
+        const operation = toPendingOperation(
+          workspaceEdit,
+          `Rename '${params.symbol_name}' to '${params.new_name}'`,
+        )
+        const approved = await approveAndRecord(
+          capabilities,
+          userInteraction,
+          journal,
+          operation,
+        )
+
+        const result: EditResult = approved
+          ? {
+              success: true,
+              message: `Renamed '${params.symbol_name}' to '${params.new_name}' in ${fileEdits.length} file(s).`,
+              files: summarizeFileEdits(workspaceEdit),
+            }
+          : {
+              success: false,
+              message: 'Rename rejected by user.',
+              reason: 'UserRejected',
+            }
+
+        return makeToolResult(result)
+      } catch (error) {
+        return makeEditErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * A code action returned by list_code_actions, kept so that it can be applied.
+ */
+interface ListedCodeAction {
+  action: CodeAction
+  /**
+   * Content versions, when the action was listed, of the file it was listed
+   * for and of the files its edit touches
+   */
+  versions: Record<UnifiedUri, string>
+}
+
+/**
+ * Maximum number of listed code actions kept for apply_code_action.
+ */
+const MAX_LISTED_CODE_ACTIONS = 100
+
+/**
+ * Registers the list_code_actions tool, and the apply_code_action tool if
+ * edits can be approved by the user.
+ */
+function registerCodeActionTools(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  journal: EditJournal,
+): void {
+  const codeActionProvider = capabilities.codeActions
+  if (!codeActionProvider) return
+  const userInteraction = capabilities.userInteraction
+
+  const listedActions = new Map<string, ListedCodeAction>()
+  let nextActionId = 1
+
+  server.registerTool(
+    'list_code_actions',
+    {
+      description:
+        'List the quick fixes and refactorings the IDE offers for a range of lines or a diagnostic' +
+        (userInteraction ? '. Apply one with apply_code_action.' : '.'),
+      inputSchema: ListCodeActionsSchema,
+      outputSchema: {
+        actions: z.array(
+          z.object({
+            id: z.string(),
+            title: z.string(),
+            kind: z.string().optional(),
+            isPreferred: z.boolean().optional(),
+            fixes: z.array(z.string()).optional(),
+          }),
+        ),
+      },
+    },
+    async (params) => {
+      try {
+        const uri = normalizeUri(params.uri)
+        const startLine = params.start_line - 1
+        // Exclusive end: the start of the line after end_line
+        const endLine = Math.max(params.end_line ?? 0, params.start_line)
+        let range: DiskRange = {
+          start: { line: startLine, character: 0 },
+          end: { line: endLine, character: 0 },
+        }
+
+        let diagnostics = (
+          (await capabilities.diagnostics?.provideDiagnostics(uri)) ?? []
+        ).filter(
+          (diagnostic) =>
+            diagnostic.range.start.line < endLine &&
+            diagnostic.range.end.line >= startLine,
+        )
+        const wanted = params.diagnostic
+        if (wanted !== undefined) {
+          diagnostics = diagnostics.filter(
+            (diagnostic) =>
+              diagnostic.message.includes(wanted) ||
+              String(diagnostic.code) === wanted,
+          )
+          const [single] = diagnostics
+          if (!single) {
+            throw new Error(
+              `No diagnostic matching '${wanted}' on lines ${params.start_line} to ${endLine}.`,
+            )
+          }
+          if (diagnostics.length === 1) {
+            range = single.range
+          }
+        }
+
+        const version = computeContentVersion(
+          await capabilities.fileAccess.readFile(uri),
+        )
+        // Versions of the files the actions touch, read once per file
+        const versionReads = new Map<UnifiedUri, Promise<string | undefined>>()
+        const readVersions = async (action: CodeAction) => {
+          const versions: Record<UnifiedUri, string> = { [uri]: version }
+          for (const touched of action.edit ? touchedFiles(action.edit) : []) {
+            let read = versionReads.get(touched)
+            if (!read) {
+              // Files that do not exist yet (e.g. created by the action) are skipped
+              read = readContentVersion(capabilities, touched)
+              versionReads.set(touched, read)
+            }
+            const touchedVersion = await read
+            if (touchedVersion !== undefined) {
+              versions[touched] = touchedVersion
+            }
+          }
+          return versions
+        }
+        const kind = params.kind
+        const actions = (
+          await codeActionProvider.provideCodeActions(uri, range, diagnostics)
+        )
+          .filter(
+            (action) =>
+              kind === undefined ||
+              action.kind === kind ||
+              action.kind?.startsWith(`${kind}.`),
+          )
+          .filter(
+            (action) =>
+              wanted === undefined ||
+              action.diagnostics?.some((fixed) =>
+                diagnostics.some(
+                  (diagnostic) =>
+                    diagnostic.message === fixed.message &&
+                    diagnostic.range.start.line === fixed.range.start.line,
+                ),
+              ),
+          )
+
+        const listed = await Promise.all(
+          actions.map(async (action) => ({
+            action,
+            versions: await readVersions(action),
+          })),
+        )
+
+        return makeToolResult({
+          actions: listed.map(({ action, versions }) => {
+            const id = `action-${nextActionId++}`
+            listedActions.set(id, { action, versions })
+            if (listedActions.size > MAX_LISTED_CODE_ACTIONS) {
+              listedActions.delete(listedActions.keys().next().value as string)
+            }
+            return {
+              id,
+              title: action.title,
+              ...(action.kind && { kind: action.kind }),
+              ...(action.isPreferred && { isPreferred: true }),
+              ...(action.diagnostics?.length && {
+                fixes: action.diagnostics.map((fixed) => fixed.message),
+              }),
+            }
+          }),
+        })
+      } catch (error) {
+        return makeResolutionErrorResult(error)
+      }
+    },
+  )
+
+  if (!userInteraction) return
+
+  server.registerTool(
+    'apply_code_action',
+    {
+      description:
+        'Apply a code action listed by list_code_actions. The edits must be approved by the user before being applied.',
+      inputSchema: ApplyCodeActionSchema,
+      outputSchema: editResultOutputSchema,
+    },
+    async (params) => {
+      try {
+        const listed = listedActions.get(params.action_id)
+        if (!listed) {
+          throw new EditValidationError(
+            `Code action ${params.action_id} is unknown or expired; list the code actions again.`,
+          )
+        }
+
+        // The action's edit is only valid against the content it was listed for
+        for (const [uri, version] of Object.entries(listed.versions)) {
+          const drift = await checkContentVersion(capabilities, uri, version)
+          if (drift) {
+            throw new EditValidationError(
+              `File ${uri} has changed since the code actions were listed; list them again.`,
+            )
+          }
+        }
+
+        let { action } = listed
+        if (!action.edit && codeActionProvider.resolveCodeAction) {
+          action = await codeActionProvider.resolveCodeAction(action)
+        }
+        const { edit } = action
+        if (!edit) {
+          throw new EditValidationError(
+            `Code action '${action.title}' has no edit and cannot be applied.`,
+          )
+        }
+
+        const files = summarizeFileEdits(edit)
+        if (files.length === 0 && !edit.fileOperations?.length) {
+          const result: EditResult = {
+            success: false,
+            message: 'Code action produced no edits.',
+            reason: 'ValidationFailed',
+          }
+          return makeToolResult(result)
+        }
+
+        const operation = toPendingOperation(
+          edit,
+          `Code action: ${action.title}`,
+        )
+        const approved = await approveAndRecord(
+          capabilities,
+          userInteraction,
+          journal,
+          operation,
+        )
+        if (approved) {
+          listedActions.delete(params.action_id)
+        }
+
+        const result: EditResult = approved
+          ? {
+              success: true,
+              message: `Applied "${action.title}" to ${files.length} file(s).`,
+              files,
+            }
+          : {
+              success: false,
+              message: 'Code action rejected by user.',
+              reason: 'UserRejected',
+            }
+
+        return makeToolResult(result)
+      } catch (error) {
+        return makeEditErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Registers the format_document tool.
+ */
+function registerFormatDocumentTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  journal: EditJournal,
+): void {
+  const formatting = capabilities.formatting
+  const userInteraction = capabilities.userInteraction
+  if (!formatting || !userInteraction) return
+
+  server.registerTool(
+    'format_document',
+    {
+      description:
+        "Format a file, or a range of its lines, with the project's formatter. The changes must be approved by the user before being applied.",
+      inputSchema: FormatDocumentSchema,
+      outputSchema: editResultOutputSchema,
+    },
+    async (params) => {
+      try {
+        const uri = normalizeUri(params.uri)
+        const content = await capabilities.fileAccess.readFile(uri)
+
+        let edits: TextEdit[]
+        if (params.start_line === undefined) {
+          edits = await formatting.provideDocumentFormatting(uri, content)
+        } else {
+          if (!formatting.provideRangeFormatting) {
+            throw new EditValidationError(
+              'The formatter can only format whole files; omit start_line.',
+            )
+          }
+          // Exclusive end: the start of the line after end_line
+          const endLine = Math.max(params.end_line ?? 0, params.start_line)
+          edits = await formatting.provideRangeFormatting(uri, content, {
+            start: { line: params.start_line - 1, character: 0 },
+            end: { line: endLine, character: 0 },
+          })
+        }
+
+        if (edits.length === 0) {
+          const result: EditResult = {
+            success: true,
+            message: 'File is already formatted.',
+          }
+          return makeToolResult(result)
+        }
+
+        const operation: PendingEditOperation = {
+          id: generateEditId(),
+          uri,
+          edits,
+          description:
+            params.start_line === undefined
+              ? 'Format document'
+              : 'Format selection',
+        }
+        const approved = await approveAndRecord(
+          capabilities,
+          userInteraction,
+          journal,
+          operation,
+        )
+
+        const result: EditResult = approved
+          ? {
+              success: true,
+              message: `Formatting applied (${edits.length} edit(s)).`,
+              version: await readContentVersion(capabilities, uri),
+            }
+          : {
+              success: false,
+              message: 'Formatting rejected by user.',
+              reason: 'UserRejected',
+            }
+        return makeToolResult(result)
+      } catch (error) {
+        return makeEditErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Registers the undo_edit tool.
+ */
+function registerUndoEditTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  journal: EditJournal,
+): void {
+  const userInteraction = capabilities.userInteraction
+  if (!userInteraction) return
+
+  server.registerTool(
+    'undo_edit',
+    {
+      description:
+        'Revert an edit previously applied through this server. The revert must be approved by the user, ' +
+        'and is refused if any edited file has changed since the edit was applied. ' +
+        'Edits that created, renamed or deleted files cannot be undone.',
+      inputSchema: UndoEditSchema,
+      outputSchema: editResultOutputSchema,
+    },
+    async (params) => {
+      try {
+        const entry =
+          params.edit_id !== undefined
+            ? journal.get(params.edit_id)
+            : journal.latestUndoable()
+        if (!entry) {
+          throw new EditValidationError(
+            params.edit_id !== undefined
+              ? `Edit ${params.edit_id} is not in the edit history.`
+              : 'No edits to undo.',
+          )
+        }
+        const { id, description } = entry.operation
+        if (entry.undoneBy !== undefined) {
+          throw new EditValidationError(
+            `Edit ${id} was already undone by ${entry.undoneBy}.`,
+          )
+        }
+        if (entry.irreversible !== undefined) {
+          throw new EditValidationError(
+            `Edit ${id} cannot be undone: ${entry.irreversible}`,
+          )
+        }
+
+        // The inverse edits are only valid against the exact post-edit content
+        for (const file of entry.files) {
+          const drift = await checkContentVersion(
+            capabilities,
+            file.uri,
+            file.version,
+          )
+          if (drift) {
+            throw new EditValidationError(
+              `File ${file.uri} has changed since edit ${id} was applied; it can no longer be undone.`,
+            )
+          }
+        }
+
+        const operation = toPendingOperation(
+          {
+            changes: Object.fromEntries(
+              entry.files.map((file) => [
+                file.uri,
+                journal.buildInverseEdits(file),
+              ]),
+            ),
+          },
+          `Undo ${id}${description ? `: ${description}` : ''}`,
+        )
+        const approved = await approveAndRecord(
+          capabilities,
+          userInteraction,
+          journal,
+          operation,
+          id,
+        )
+
+        const result: EditResult = approved
+          ? {
+              success: true,
+              message: `Edit ${id} undone.`,
+              ...('uri' in operation
+                ? {
+                    version: await readContentVersion(
+                      capabilities,
+                      operation.uri,
+                    ),
+                  }
+                : { files: summarizeFileEdits(operation.edit) }),
+            }
+          : {
+              success: false,
+              message: 'Undo rejected by user.',
+              reason: 'UserRejected',
+            }
+
+        return makeToolResult(result)
+      } catch (error) {
+        return makeEditErrorResult(error)
+      }
+    },
+  )
+}
+
+/**
+ * Registers the edit history resource.
+ * - lsp://edits/history - edits applied through this server, oldest first
+ */
+function registerEditHistoryResource(
+  server: McpServer,
+  journal: EditJournal,
+): void {
+  server.registerResource(
+    'edit-history',
+    'lsp://edits/history',
+    {
+      description:
+        'Edits applied through this server during the session, oldest first. Use the edit IDs with undo_edit.',
+      mimeType: 'text/markdown',
+    },
+    async () => ({
+      contents: [
+        {
+          uri: 'lsp://edits/history',
+          mimeType: 'text/markdown',
+          text: formatEditHistoryAsMarkdown(journal.list()),
+        },
+      ],
+    }),
+  )
+
+  // Notify MCP clients whenever an edit or an undo is recorded
+  journal.subscribe(() => {
+    server.server.sendResourceUpdated({ uri: 'lsp://edits/history' })
+  })
+}
+
+/**
+ * Registers the filesystem resource.
+ * - lsp://files/path - file tree for a directory (git-ignored files excluded)
+ * - lsp://files/path/to/file.ext - read file content
+ * - lsp://files/path/to/file.ext#L21 - read specific line
+ * - lsp://files/path/to/file.ext#L21-L28 - read line range
+ */
+function registerFilesystemResource(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+): void {
+  const { fileAccess } = capabilities
+  const { getFileTree } = fileAccess
+
+  if (getFileTree !== undefined) {
+    const fileTreeTemplate = new ResourceTemplate('lsp://filetree/{+path}', {
+      list: undefined,
+    })
+
+    server.registerResource(
+      'fileTree',
+      fileTreeTemplate,
+      {
+        description:
+          'Access file tree inside a relative path or use "." for root.',
+      },
+      async (uri, { path }) => ({
+        contents: [
+          {
+            uri: uri.toString(),
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              (await getFileTree(normalizeUri(path as string))) ?? '',
+            ),
+          },
+        ],
+      }),
+    )
+  }
+
+  const filesystemTemplate = new ResourceTemplate('lsp://files/{+path}', {
+    list: undefined, // Cannot enumerate all directories
+  })
+
+  server.registerResource(
+    'filesystem',
+    filesystemTemplate,
+    {
+      description:
+        'Access filesystem resources. For directories: returns children (git-ignored files excluded). ' +
+        'For files: returns file content with its content version in _meta.version. ' +
+        'Supports line ranges with #L23 or #L23-L30 fragment.',
+    },
+    async (uri, variables) => {
+      const uriString = uri.toString()
+
+      try {
+        // Parse fragment for line range (e.g., #L23 or #L23-L30)
+        const { path, fragment } = splitFragment(variables.path as string)
+
+        const normalizedPath = normalizeUri(path)
+        const lineRange = parseLineRange(fragment)
+
+        // Try reading as a file first
+        try {
+          const content = await fileAccess.readFile(normalizedPath)
+
+          // If we have a line range, extract those lines
+          const resultContent = lineRange
+            ? extractLines(content, lineRange)
+            : content
+
+          return {
+            contents: [
+              {
+                uri: uriString,
+                mimeType: 'text/plain',
+                text: resultContent,
+                // Version of the whole file, for apply_edit's expected_version
+                _meta: { version: computeContentVersion(content) },
+              },
+            ],
+          }
+        } catch {
+          // File reading failed, try as directory
+          const files = await fileAccess.readDirectory(normalizedPath)
+
+          return {
+            contents: [
+              {
+                uri: uriString,
+                mimeType: 'application/json',
+                text: JSON.stringify(files),
+              },
             ],
           }
         }
@@ -757,6 +2546,148 @@ function registerFilesystemResource(
   )
 }
 
+/**
+ * Registers the inlay hints resource.
+ * - lsp://inlay/path/to/file.ext - file content with inlay hints rendered inline
+ * - lsp://inlay/path/to/file.ext#L21-L28 - the same for a line range
+ */
+function registerInlayHintsResource(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  positionEncoding: PositionEncoding,
+): void {
+  const inlayHintsProvider = capabilities.inlayHints
+  if (!inlayHintsProvider) return
+
+  const inlayTemplate = new ResourceTemplate('lsp://inlay/{+path}', {
+    list: undefined, // Cannot enumerate all files
+  })
+
+  server.registerResource(
+    'inlay-hints',
+    inlayTemplate,
+    {
+      description:
+        'File content with inlay hints (inferred types, parameter names) rendered inline between « and ». ' +
+        'Hints are not part of the file; do not copy them into edits. ' +
+        'Supports line ranges with #L23 or #L23-L30 fragment.',
+      mimeType: 'text/plain',
+    },
+    async (uri, variables) => {
+      const uriString = uri.toString()
+
+      try {
+        const { path, fragment } = splitFragment(variables.path as string)
+        const normalizedPath = normalizeUri(path)
+        const lineRange = parseLineRange(fragment)
+
+        const content = await capabilities.fileAccess.readFile(normalizedPath)
+        const hints = await inlayHintsProvider.provideInlayHints(
+          normalizedPath,
+          toFileRange(content, lineRange, positionEncoding),
+        )
+        const rendered = renderInlayHints(content, hints, positionEncoding)
+
+        return {
+          contents: [
+            {
+              uri: uriString,
+              mimeType: 'text/plain',
+              text: lineRange ? extractLines(rendered, lineRange) : rendered,
+            },
+          ],
+        }
+      } catch (error) {
+        const message = `Error: ${error instanceof Error ? error.message : String(error)}`
+        return {
+          contents: [
+            {
+              uri: uriString,
+              mimeType: 'text/plain',
+              text: message,
+            },
+          ],
+        }
+      }
+    },
+  )
+}
+
+/**
+ * Registers the semantic tokens resource.
+ * - lsp://semantic/path/to/file.ext - file lines with their semantic tokens
+ * - lsp://semantic/path/to/file.ext#L21-L28 - the same for a line range
+ */
+function registerSemanticTokensResource(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+  positionEncoding: PositionEncoding,
+): void {
+  const semanticTokensProvider = capabilities.semanticTokens
+  if (!semanticTokensProvider) return
+
+  const semanticTemplate = new ResourceTemplate('lsp://semantic/{+path}', {
+    list: undefined, // Cannot enumerate all files
+  })
+
+  server.registerResource(
+    'semantic-tokens',
+    semanticTemplate,
+    {
+      description:
+        'File lines with semantic tokens (locals, parameters, types, deprecated members, macros, ...). ' +
+        'Returns a legend of token types and modifiers, and for each line its text and tokens as ' +
+        '[column, length, type, ...modifiers] with a 1-based column and indexes into the legend. ' +
+        'Supports line ranges with #L23 or #L23-L30 fragment.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const uriString = uri.toString()
+
+      try {
+        const { path, fragment } = splitFragment(variables.path as string)
+        const normalizedPath = normalizeUri(path)
+        const lineRange = parseLineRange(fragment)
+
+        const content = await capabilities.fileAccess.readFile(normalizedPath)
+        const tokens = await semanticTokensProvider.provideSemanticTokens(
+          normalizedPath,
+          toFileRange(content, lineRange, positionEncoding),
+        )
+        const view = formatSemanticTokens(
+          content,
+          tokens,
+          lineRange ?? { start: 1, end: Number.POSITIVE_INFINITY },
+          positionEncoding,
+        )
+
+        return {
+          contents: [
+            {
+              uri: uriString,
+              mimeType: 'application/json',
+              text: JSON.stringify(view),
+              // Version of the whole file, for apply_edit's expected_version
+              _meta: { version: computeContentVersion(content) },
+            },
+          ],
+        }
+      } catch (error) {
+        const message = `Error: ${error instanceof Error ? error.message : String(error)}`
+        return {
+          contents: [
+            {
+              uri: uriString,
+              mimeType: 'text/plain',
+              text: message,
+            },
+          ],
+        }
+      }
+    },
+  )
+}
+
 /**
  * Registers the global_find tool.
  */
@@ -810,6 +2741,64 @@ function registerGlobalFindTool(
   )
 }
 
+/**
+ * Registers the find_workspace_symbols tool.
+ */
+function registerFindWorkspaceSymbolsTool(
+  server: McpServer,
+  capabilities: IdeCapabilities,
+): void {
+  const workspaceSymbolProvider = capabilities.workspaceSymbols
+  if (!workspaceSymbolProvider) return
+
+  server.registerTool(
+    'find_workspace_symbols',
+    {
+      description:
+        'Find symbols (classes, functions, variables, ...) by name across the workspace. ' +
+        'Returns the file and 1-based line of each symbol, which can be passed as uri and line_hint to the other tools.',
+      inputSchema: FindWorkspaceSymbolsSchema,
+      outputSchema: {
+        symbols: z.array(
+          z.object({
+            name: z.string(),
+            kind: z.string(),
+            containerName: z.string().optional(),
+            uri: z.string(),
+            line: z.number(),
+          }),
+        ),
+        total: z.number(),
+      },
+    },
+    async (params) => {
+      try {
+        const kinds = params.kinds && new Set<string>(params.kinds)
+        const matches = (
+          await workspaceSymbolProvider.provideWorkspaceSymbols(params.query)
+        ).filter((symbol) => !kinds || kinds.has(symbol.kind))
+
+        const symbols = matches.slice(0, params.limit).map((symbol) => ({
+          name: symbol.name,
+          kind: symbol.kind,
+          ...(symbol.containerName && { containerName: symbol.containerName }),
+          uri: symbol.uri,
+          line: symbol.range.start.line + 1,
+        }))
+
+        return makeToolResult({ symbols, total: matches.length })
+      } catch (error) {
+        const message = `Error: ${error instanceof Error ? error.message : String(error)}`
+        return {
+          content: [{ type: 'text' as const, text: message }],
+          structuredContent: { error: message },
+          isError: true,
+        }
+      }
+    },
+  )
+}
+
 /**
  * Registers the global_replace tool.
  */
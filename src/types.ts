@@ -15,13 +15,19 @@
  */
 export type UnifiedUri = string
 
+/**
+ * How the character of an ExactPosition is counted: in UTF-16 code units
+ * (the LSP default), UTF-8 bytes or Unicode code points.
+ */
+export type PositionEncoding = 'utf-16' | 'utf-8' | 'utf-32'
+
 /**
  * 0-based exact coordinate system (Used internally by IDE).
  */
 export interface ExactPosition {
   /** 0-based line number */
   line: number
-  /** 0-based column (character offset) */
+  /** 0-based column, counted in the configured PositionEncoding */
   character: number
 }
 
@@ -38,8 +44,17 @@ export interface FuzzyPosition {
   /**
    * An approximate line number where the symbol is expected.
    * 1-based (Human friendly) for LLM input, converted to 0-based internally.
+   * Required unless symbolPath is given.
    */
-  lineHint: number
+  lineHint?: number
+
+  /**
+   * Dot-separated path of the enclosing symbol in the document outline
+   * (e.g., "UserService.findById"). If symbolName is the last segment,
+   * resolves to the name of that symbol; otherwise symbolName is searched
+   * within that symbol. Requires an OutlineProvider.
+   */
+  symbolPath?: string
 
   /**
    * If the symbol appears multiple times on the line, which occurrence to target?
@@ -49,6 +64,19 @@ export interface FuzzyPosition {
   orderHint?: number
 }
 
+/**
+ * A line where a symbol occurs, offered when a fuzzy position cannot be
+ * resolved so that the LLM can retry with a better hint.
+ */
+export interface SymbolCandidate {
+  /** 1-based line number */
+  line: number
+  /** The text of the line, without surrounding whitespace */
+  text: string
+  /** Distance in lines from the lineHint, if one was given */
+  distance?: number
+}
+
 /**
  * Represents a resolved span of text on disk.
  */
@@ -69,6 +97,74 @@ export interface CodeSnippet {
   content: string
 }
 
+/**
+ * A function or method in a call hierarchy. The name and selection range
+ * are optional, but needed to walk the hierarchy more than one level deep.
+ */
+export interface CallHierarchyItem extends CodeSnippet {
+  /** The name of the function or method */
+  name?: string
+  /** The range of the name, where the next level is looked up */
+  selectionRange?: DiskRange
+}
+
+// ============================================================================
+// Hover Types
+// ============================================================================
+
+/**
+ * The format of human-readable content returned by the IDE.
+ */
+export type MarkupKind = 'markdown' | 'plaintext'
+
+/**
+ * Hover information (type signature, doc comment) for a symbol.
+ */
+export interface HoverInfo {
+  /** The hover content (e.g., type signature and documentation) */
+  contents: string
+  /** The format of the contents */
+  kind: MarkupKind
+  /** Optional range of the symbol the hover applies to */
+  range?: DiskRange
+}
+
+/**
+ * A parameter of a callable signature.
+ */
+export interface ParameterInformation {
+  /** The parameter as it appears in the signature label (e.g., "path: string") */
+  label: string
+  /** Optional documentation of the parameter */
+  documentation?: string
+}
+
+/**
+ * A signature of something callable (e.g., one overload of a function).
+ */
+export interface SignatureInformation {
+  /** The full signature (e.g., "readFile(path: string, encoding?: string): Promise<string>") */
+  label: string
+  /** Optional documentation of the signature */
+  documentation?: string
+  /** The parameters of the signature */
+  parameters: ParameterInformation[]
+  /** 0-based index of the active parameter, if it differs per signature */
+  activeParameter?: number
+}
+
+/**
+ * The signatures available at a call site.
+ */
+export interface SignatureHelp {
+  /** The signatures (overloads) of the called function */
+  signatures: SignatureInformation[]
+  /** 0-based index of the signature that best matches the call */
+  activeSignature: number
+  /** 0-based index of the parameter the position is at, in the active signature */
+  activeParameter: number
+}
+
 // ============================================================================
 // Edit Types
 // ============================================================================
@@ -97,15 +193,130 @@ export interface PendingEditOperation {
   description?: string
 }
 
+/**
+ * A file-level operation that is part of a workspace edit.
+ */
+export type FileOperation =
+  | {
+      kind: 'create'
+      /** The URI of the file to create */
+      uri: UnifiedUri
+      /** Whether to overwrite an existing file */
+      overwrite?: boolean
+    }
+  | {
+      kind: 'rename'
+      /** The current URI of the file */
+      oldUri: UnifiedUri
+      /** The new URI of the file */
+      newUri: UnifiedUri
+      /** Whether to overwrite an existing file at newUri */
+      overwrite?: boolean
+    }
+  | {
+      kind: 'delete'
+      /** The URI of the file to delete */
+      uri: UnifiedUri
+      /** Whether to delete directories recursively */
+      recursive?: boolean
+    }
+
+/**
+ * A set of text edits and file operations spanning multiple files
+ * (e.g., the result of a rename).
+ */
+export interface WorkspaceEdit {
+  /**
+   * The text edits to apply, keyed by the URI of the file they belong to.
+   * URIs refer to files as they exist after fileOperations are applied.
+   */
+  changes: Record<UnifiedUri, TextEdit[]>
+  /** Optional file operations, applied in order before the text edits */
+  fileOperations?: FileOperation[]
+}
+
+/**
+ * Represents a pending multi-file edit operation that awaits user approval.
+ * The whole workspace edit is approved or rejected as a single unit.
+ */
+export interface PendingWorkspaceEditOperation {
+  /** Unique identifier for this operation */
+  id: string
+  /** The workspace edit to apply */
+  edit: WorkspaceEdit
+  /** Optional description of the edit (e.g., "Rename 'foo' to 'bar'") */
+  description?: string
+}
+
 /**
  * The reason why an edit operation failed.
  */
-export type EditFailureReason = 'UserRejected' | 'IOError' | 'ValidationFailed'
+export type EditFailureReason =
+  | 'UserRejected'
+  | 'IOError'
+  | 'ValidationFailed'
+  /** The search text does not exist in the file */
+  | 'NotFound'
+  /** The search text matches more than one location */
+  | 'Ambiguous'
+
+/**
+ * Summary of the edits applied to a single file.
+ */
+export interface FileEditSummary {
+  /** The URI of the edited file */
+  uri: UnifiedUri
+  /** The number of text edits applied to the file */
+  editCount: number
+}
+
+/**
+ * Agent-facing summary of a diagnostic.
+ */
+export interface DiagnosticSummary {
+  /** 1-based line number of the diagnostic */
+  line: number
+  /** The severity of the diagnostic */
+  severity: DiagnosticSeverity
+  /** The diagnostic message */
+  message: string
+  /** Optional source of the diagnostic */
+  source?: string
+  /** Optional diagnostic code */
+  code?: string | number
+}
+
+/**
+ * Diagnostics of a file that changed as a result of an edit.
+ */
+export interface DiagnosticsChange {
+  /** Diagnostics present after the edit but not before */
+  introduced: DiagnosticSummary[]
+  /** Diagnostics present before the edit but not after */
+  resolved: DiagnosticSummary[]
+  /** Whether the IDE reported refreshed diagnostics before the timeout */
+  refreshed: boolean
+}
 
 /**
  * The result of an edit operation.
  */
-export type EditResult = { success: boolean; message: string }
+export type EditResult = {
+  success: boolean
+  message: string
+  /** Why the edit failed (only set when success is false) */
+  reason?: EditFailureReason
+  /** Number of matches of the search text (set for NotFound and Ambiguous) */
+  matchCount?: number
+  /** 1-based line numbers of every candidate match (set for Ambiguous) */
+  candidateLines?: number[]
+  /** Content version of the file after a successful single-file edit */
+  version?: string
+  /** Per-file detail for operations that touch several files */
+  files?: FileEditSummary[]
+  /** Diagnostics introduced or resolved by the edit, if requested */
+  diagnostics?: DiagnosticsChange
+}
 
 // ============================================================================
 // Diagnostic Types
@@ -134,41 +345,164 @@ export interface Diagnostic {
   code?: string | number
 }
 
+/**
+ * An action the IDE can perform on the code, such as a quick fix for a
+ * diagnostic ("Add missing import") or a refactoring.
+ */
+export interface CodeAction {
+  /** Short human-readable title of the action */
+  title: string
+  /** Kind of the action (e.g., "quickfix", "refactor.extract") */
+  kind?: string
+  /** Whether the IDE considers this the preferred fix */
+  isPreferred?: boolean
+  /** The diagnostics this action fixes */
+  diagnostics?: Diagnostic[]
+  /**
+   * The changes the action makes. May be omitted when listing actions if
+   * CodeActionProvider.resolveCodeAction computes it.
+   */
+  edit?: WorkspaceEdit
+}
+
 // ============================================================================
 // Outline Types
 // ============================================================================
 
+/**
+ * All symbol kinds, available at runtime for input validation.
+ */
+export const symbolKinds = [
+  'file',
+  'module',
+  'namespace',
+  'package',
+  'class',
+  'method',
+  'property',
+  'field',
+  'constructor',
+  'enum',
+  'interface',
+  'function',
+  'variable',
+  'constant',
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'object',
+  'key',
+  'null',
+  'enumMember',
+  'struct',
+  'event',
+  'operator',
+  'typeParameter',
+] as const
+
 /**
  * Symbol kind for outline items.
  */
-export type SymbolKind =
-  | 'file'
-  | 'module'
-  | 'namespace'
-  | 'package'
-  | 'class'
+export type SymbolKind = (typeof symbolKinds)[number]
+
+/**
+ * A hint the IDE shows inline in the code, such as an inferred type or the
+ * name of the parameter an argument is passed to.
+ */
+export interface InlayHint {
+  /** The position the hint is shown at */
+  position: ExactPosition
+  /** The hint text (e.g., ": number" or "count:") */
+  label: string
+}
+
+/**
+ * A classified identifier or keyword, as used for semantic highlighting.
+ */
+export interface SemanticToken {
+  /** The range of the token, within a single line */
+  range: DiskRange
+  /** The token type (e.g., "variable", "parameter", "type", "macro") */
+  type: string
+  /** The token modifiers (e.g., "declaration", "readonly", "deprecated") */
+  modifiers?: string[]
+}
+
+/**
+ * The kind of a completion item.
+ */
+export type CompletionItemKind =
+  | 'text'
   | 'method'
-  | 'property'
-  | 'field'
-  | 'constructor'
-  | 'enum'
-  | 'interface'
   | 'function'
+  | 'constructor'
+  | 'field'
   | 'variable'
-  | 'constant'
-  | 'string'
-  | 'number'
-  | 'boolean'
-  | 'array'
-  | 'object'
-  | 'key'
-  | 'null'
+  | 'class'
+  | 'interface'
+  | 'module'
+  | 'property'
+  | 'unit'
+  | 'value'
+  | 'enum'
+  | 'keyword'
+  | 'snippet'
+  | 'color'
+  | 'file'
+  | 'reference'
+  | 'folder'
   | 'enumMember'
+  | 'constant'
   | 'struct'
   | 'event'
   | 'operator'
   | 'typeParameter'
 
+/**
+ * A completion suggested by the IDE at a position.
+ */
+export interface CompletionItem {
+  /** The text shown in the completion list (usually the name) */
+  label: string
+  /** The kind of the suggestion */
+  kind?: CompletionItemKind
+  /** Details such as the type or signature of the suggestion */
+  detail?: string
+  /** The text inserted when the completion is accepted. Defaults to label */
+  insertText?: string
+  /** Key used to rank the suggestion among the others. Defaults to label */
+  sortText?: string
+  /** Whether the IDE would select this suggestion first */
+  preselect?: boolean
+}
+
+/**
+ * A symbol found by a workspace-wide symbol search.
+ */
+export interface WorkspaceSymbol {
+  /** The name of the symbol */
+  name: string
+  /** The kind of this symbol */
+  kind: SymbolKind
+  /** Name of the symbol containing this one (e.g., the class of a method) */
+  containerName?: string
+  /** The URI of the file containing the symbol */
+  uri: UnifiedUri
+  /** The range of the symbol's name (or of the whole symbol) */
+  range: DiskRange
+}
+
+/**
+ * A type in a type hierarchy, with the code that declares it.
+ */
+export interface TypeHierarchyItem extends CodeSnippet {
+  /** The name of the type */
+  name: string
+  /** The kind of the type (e.g., class or interface) */
+  kind: SymbolKind
+}
+
 /**
  * Represents a symbol in the document outline (e.g., class, function, variable).
  */